@@ -1,8 +1,17 @@
 import dotenv from 'dotenv';
 import path from 'path';
+import {
+  ImageProviderName,
+  SpeechProviderName,
+  TextProviderName,
+  VideoProviderName,
+} from '@/providers/types';
 
 dotenv.config();
 
+// AI_PROVIDER=fake switches every provider to the offline fakes unless overridden individually
+const offline = process.env.AI_PROVIDER === 'fake';
+
 export const config = {
   port: process.env.PORT || 3001,
   nodeEnv: process.env.NODE_ENV || 'development',
@@ -15,6 +24,48 @@ export const config = {
     apiKey: process.env.ELEVENLABS_API_KEY || '',
     voiceId: process.env.ELEVENLABS_VOICE_ID || 'kC1WIuSSgwH2T8iOV4iJ',
     modelId: process.env.ELEVENLABS_MODEL_ID || 'eleven_multilingual_v2',
+    // Voices handed out to characters that haven't been cast (ElevenLabs premade voices by default)
+    characterVoiceIds: (process.env.ELEVENLABS_CHARACTER_VOICE_IDS
+      || '21m00Tcm4TlvDq8ikWAM,pNInz6obpgDQGcFmaJgB,EXAVITQu4vr4xnSDxMaL,ErXwobaYiN019PkySvjV,MF3mGyEYCl7XYWbV9V6O,TxGEqnHWrfWFTfGW9XjX')
+      .split(',').map(id => id.trim()).filter(Boolean),
+  },
+  
+  stability: {
+    apiKey: process.env.STABILITY_API_KEY || '',
+  },
+
+  providers: {
+    text: (process.env.TEXT_PROVIDER || (offline ? 'fake' : 'gemini')) as TextProviderName,
+    image: (process.env.IMAGE_PROVIDER || (offline ? 'fake' : 'stability')) as ImageProviderName,
+    speech: (process.env.SPEECH_PROVIDER || (offline ? 'fake' : 'elevenlabs')) as SpeechProviderName,
+    video: (process.env.VIDEO_PROVIDER || (offline ? 'fake' : 'veo')) as VideoProviderName,
+  },
+
+  media: {
+    ffmpegPath: process.env.FFMPEG_PATH || 'ffmpeg',
+    ffprobePath: process.env.FFPROBE_PATH || 'ffprobe',
+  },
+
+  audioMix: {
+    // Mix narration, music and the video's sound effects into one track per section (requires ffmpeg)
+    enabled: process.env.AUDIO_MIX !== 'false',
+    // EBU R128 integrated loudness every section's narration is normalized to
+    loudnessLufs: parseFloat(process.env.NARRATION_LOUDNESS_LUFS || '-16'),
+    // Folder of music tracks, named by mood (calm.mp3, adventurous.mp3, ...); none means no music bed
+    musicDir: process.env.MUSIC_DIR || path.join(__dirname, '../../data/music'),
+    musicVolumeDb: parseFloat(process.env.MUSIC_VOLUME_DB || '-20'),
+    sfxVolumeDb: parseFloat(process.env.SFX_VOLUME_DB || '-14'),
+  },
+
+  movie: {
+    // How section clips are fitted to narration length: 'loop' repeats the clip, 'stretch' slows it down
+    fitMode: (process.env.MOVIE_FIT_MODE === 'stretch' ? 'stretch' : 'loop') as 'loop' | 'stretch',
+    // Burn captions into the picture (requires ffmpeg built with libass); otherwise attach a subtitle track
+    burnCaptions: process.env.MOVIE_BURN_CAPTIONS === 'true',
+    transitionSeconds: parseFloat(process.env.MOVIE_TRANSITION_SECONDS || '0.5'),
+    width: 1280,
+    height: 720,
+    fps: 24,
   },
   
   storage: {
@@ -23,6 +74,7 @@ export const config = {
     storiesDir: process.env.STORIES_DIR || path.join(__dirname, '../../data/stories'),
     videosDir: process.env.VIDEOS_DIR || path.join(__dirname, '../../data/videos'),
     imagesDir: process.env.IMAGES_DIR || path.join(__dirname, '../../data/images'),
+    jobsDir: process.env.JOBS_DIR || path.join(__dirname, '../../data/jobs'),
     maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '10485760'), // 10MB default
   },
   
@@ -36,6 +88,43 @@ export const config = {
     timeout: parseInt(process.env.VEO_TIMEOUT || '300000'), // 5 minutes default
   },
   
+  video: {
+    // Image each clip starts from: 'keyframe' (the background with portraits of the scene's
+    // characters), 'background' (the section background image) or 'none' (text only)
+    seedImage: (['keyframe', 'background', 'none'].includes(process.env.VIDEO_SEED_IMAGE || '')
+      ? process.env.VIDEO_SEED_IMAGE
+      : 'keyframe') as 'keyframe' | 'background' | 'none',
+    // Clip lengths (seconds) the video model can make; narration is covered with these
+    clipLengths: (process.env.VIDEO_CLIP_LENGTHS || '4,6,8')
+      .split(',').map(length => parseFloat(length)).filter(length => length > 0),
+    // Most clips generated for one section; longer narration loops or stretches the last of the picture
+    maxClipsPerSection: parseInt(process.env.MAX_CLIPS_PER_SECTION || '4'),
+    // Plan a shot list (one clip per shot) for sections longer than one clip
+    planShots: process.env.PLAN_SHOTS !== 'false',
+  },
+
+  structuredOutput: {
+    // Attempts (first try plus repair re-prompts) before a JSON response is rejected
+    maxAttempts: parseInt(process.env.STRUCTURED_OUTPUT_MAX_ATTEMPTS || '3'),
+  },
+
+  fidelity: {
+    // Replace section scripts with the exact story text when they skip, repeat or change it
+    autoRepair: process.env.SCRIPT_AUTO_REPAIR === 'true',
+  },
+
+  chunking: {
+    // Stories longer than this are analyzed and style-extracted in chunks
+    maxChunkChars: parseInt(process.env.CHUNK_MAX_CHARS || '12000'),
+    // Characters of the previous chunk repeated as context at the start of the next
+    overlapChars: parseInt(process.env.CHUNK_OVERLAP_CHARS || '1000'),
+  },
+
+  jobs: {
+    // Number of pipeline jobs allowed to run at the same time
+    concurrency: parseInt(process.env.JOB_CONCURRENCY || '1'),
+  },
+
   segmentation: {
     // Set to 0 for automatic calculation based on story length
     // Or set a fixed number (3-12) to override
@@ -44,15 +133,45 @@ export const config = {
     maxSegments: parseInt(process.env.MAX_SEGMENTS || '12'),
     wordsPerSegment: parseInt(process.env.WORDS_PER_SEGMENT || '150'),
   },
+  narration: {
+    // Rewrite section scripts for reading aloud before text-to-speech
+    adapt: process.env.NARRATION_ADAPTATION === 'true',
+    // Listeners the pacing and wording are adapted for
+    audience: process.env.NARRATION_AUDIENCE || 'young children (ages 4-8)',
+  },
+
   features: {
     // Enable reference image generation (requires Vertex AI setup)
     enableReferenceImages: process.env.ENABLE_REFERENCE_IMAGES === 'true',
+    // Draw a portrait of every character to keep them consistent across clips
+    enableCharacterPortraits: process.env.ENABLE_CHARACTER_PORTRAITS !== 'false',
   },
 } as const;
 
+const knownProviders = {
+  text: ['gemini', 'fake'],
+  image: ['stability', 'imagen', 'fake'],
+  speech: ['elevenlabs', 'fake'],
+  video: ['veo', 'fake'],
+};
+
 // Validation
 export function validateConfig() {
-  if (!process.env.GOOGLE_API_KEY) {
+  for (const [kind, names] of Object.entries(knownProviders)) {
+    const selected = config.providers[kind as keyof typeof knownProviders];
+    if (!names.includes(selected)) {
+      throw new Error(`Unknown ${kind} provider "${selected}" (expected one of: ${names.join(', ')})`);
+    }
+  }
+
+  const usesGoogle = config.providers.text === 'gemini'
+    || config.providers.image === 'imagen'
+    || config.providers.video === 'veo';
+  if (usesGoogle && !process.env.GOOGLE_API_KEY) {
     throw new Error('Missing required environment variable: GOOGLE_API_KEY');
   }
+
+  if (config.video.clipLengths.length === 0 || !(config.video.maxClipsPerSection >= 1)) {
+    throw new Error('VIDEO_CLIP_LENGTHS needs at least one length and MAX_CLIPS_PER_SECTION must be at least 1');
+  }
 }
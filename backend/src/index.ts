@@ -4,8 +4,15 @@ import { config, validateConfig } from '@/config';
 import { fileStorage } from '@/utils/fileStorage';
 import uploadRoutes from '@/routes/upload';
 import storiesRoutes from '@/routes/stories';
+import sectionsRoutes from '@/routes/sections';
+import styleRoutes from '@/routes/style';
 import videosRoutes from '@/routes/videos';
 import imagesRoutes from '@/routes/images';
+import jobsRoutes from '@/routes/jobs';
+import { jobQueue } from '@/services/jobQueue';
+import { storageMigration } from '@/services/storageMigration';
+import { attachRealtimeServer } from '@/services/realtime';
+import '@/services/processor'; // Registers pipeline job handlers
 
 // Initialize Express app
 const app: Express = express();
@@ -37,8 +44,11 @@ app.get('/health', (req: Request, res: Response) => {
 // API Routes
 app.use('/api', uploadRoutes);
 app.use('/api/stories', storiesRoutes);
+app.use('/api/stories/:id/sections', sectionsRoutes);
+app.use('/api/stories/:id/style', styleRoutes);
 app.use('/api/videos', videosRoutes);
 app.use('/api/images', imagesRoutes);
+app.use('/api/jobs', jobsRoutes);
 
 // 404 handler
 app.use((req: Request, res: Response) => {
@@ -68,13 +78,28 @@ async function startServer() {
     await fileStorage.initializeStorage();
     console.log('✓ Storage initialized');
 
+    // Convert stories saved with the legacy segments layout (before jobs touch them)
+    const migrated = await storageMigration.migrate();
+    if (migrated > 0) {
+      console.log(`✓ Migrated ${migrated} legacy stor${migrated === 1 ? 'y' : 'ies'} to the section layout`);
+    }
+
+    // Resume jobs interrupted by a previous shutdown or crash
+    const resumed = await jobQueue.resumePending();
+    console.log(`✓ Job queue ready (${resumed} unfinished job${resumed === 1 ? '' : 's'} resumed)`);
+
     // Start listening
-    app.listen(config.port, () => {
+    const server = app.listen(config.port, () => {
       console.log(`\n🚀 Server running on port ${config.port}`);
+      console.log(`📡 Live progress: ws://localhost:${config.port}/ws?storyId=<id>`);
       console.log(`📝 Environment: ${config.nodeEnv}`);
       console.log(`🎬 Gemini Veo Model: ${config.veo.model}`);
+      console.log(`🧩 Providers: text=${config.providers.text}, image=${config.providers.image}, speech=${config.providers.speech}, video=${config.providers.video}`);
       console.log(`📁 Data directory: ${config.storage.dataDir}\n`);
     });
+
+    // Push progress events over WebSocket
+    attachRealtimeServer(server);
   } catch (error) {
     console.error('Failed to start server:', error);
     process.exit(1);
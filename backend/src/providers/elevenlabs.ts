@@ -0,0 +1,73 @@
+import fetch from 'node-fetch';
+import { config } from '@/config';
+import { SpeechModel, SpeechOptions, SpeechResult } from './types';
+
+interface ElevenLabsTimestampResponse {
+  audio_base64: string;
+  alignment: {
+    characters: string[];
+    character_start_times_seconds: number[];
+    character_end_times_seconds: number[];
+  } | null;
+}
+
+/**
+ * ElevenLabs text-to-speech
+ */
+export class ElevenLabsSpeechModel implements SpeechModel {
+  readonly name = config.elevenlabs.modelId;
+
+  async synthesize(text: string, options: SpeechOptions = {}): Promise<Buffer> {
+    const response = await this.request('', 'audio/mpeg', text, options);
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  /**
+   * Same request against the with-timestamps endpoint, which returns base64 audio
+   * plus start/end times for every character of the input
+   */
+  async synthesizeWithTimestamps(text: string, options: SpeechOptions = {}): Promise<SpeechResult> {
+    const response = await this.request('/with-timestamps', 'application/json', text, options);
+    const data = await response.json() as ElevenLabsTimestampResponse;
+
+    if (!data.alignment) {
+      throw new Error('ElevenLabs response did not include timestamps');
+    }
+
+    return {
+      audio: Buffer.from(data.audio_base64, 'base64'),
+      alignment: {
+        characters: data.alignment.characters,
+        characterStartTimesSeconds: data.alignment.character_start_times_seconds,
+        characterEndTimesSeconds: data.alignment.character_end_times_seconds,
+      },
+    };
+  }
+
+  private async request(endpoint: string, accept: string, text: string, options: SpeechOptions) {
+    const voiceId = options.voiceId || config.elevenlabs.voiceId;
+
+    const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}${endpoint}`, {
+      method: 'POST',
+      headers: {
+        'Accept': accept,
+        'Content-Type': 'application/json',
+        'xi-api-key': config.elevenlabs.apiKey
+      },
+      body: JSON.stringify({
+        text,
+        model_id: this.name,
+        voice_settings: {
+          stability: 0.5,
+          similarity_boost: 0.5
+        }
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`ElevenLabs API error: ${response.status} ${response.statusText}`);
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,261 @@
+import zlib from 'zlib';
+import fs from 'fs/promises';
+import path from 'path';
+import { runFfmpeg } from '@/utils/ffmpeg';
+import { splitScriptForClips } from '@/utils/clipPlanning';
+import { GeminiVeoRequest } from '@/types';
+import {
+  ImageGenerationOptions,
+  ImageModel,
+  SpeechModel,
+  TextGenerationOptions,
+  TextModel,
+  VideoModel,
+} from './types';
+
+// Deterministic offline providers for development and integration tests.
+// Output depends only on the input, so repeated runs produce identical files.
+
+/**
+ * FNV-1a hash, used to derive stable colours from prompts
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function colorFor(value: string): [number, number, number] {
+  const hash = hashString(value);
+  return [(hash >> 16) & 0xff, (hash >> 8) & 0xff, hash & 0xff];
+}
+
+const COMMON_CAPITALIZED = new Set([
+  'The', 'A', 'An', 'And', 'But', 'Or', 'So', 'Then', 'When', 'One', 'Once', 'He', 'She', 'It',
+  'They', 'We', 'I', 'You', 'His', 'Her', 'Their', 'This', 'That', 'There', 'In', 'On', 'At',
+  'As', 'If', 'What', 'Who', 'Why', 'How', 'After', 'Before', 'Finally', 'Chapter',
+]);
+
+/**
+ * Canned text responses shaped like the real model's output for each task
+ */
+export class FakeTextModel implements TextModel {
+  readonly name = 'fake-text';
+
+  async generateText(prompt: string, options: TextGenerationOptions = {}): Promise<string> {
+    const source = options.source || '';
+
+    switch (options.task) {
+      case 'sections':
+        return JSON.stringify(this.fakeSections(source));
+      case 'style':
+        return JSON.stringify(this.fakeStyle(source));
+      case 'narration':
+        return this.fakeNarration(source);
+      case 'shots':
+        return JSON.stringify(this.fakeShots(source, options.count || 1));
+      default: {
+        const subject = (source || prompt).replace(/\s+/g, ' ').trim().substring(0, 200);
+        return `Storybook illustration, soft lighting, wide shot: ${subject}`;
+      }
+    }
+  }
+
+  /**
+   * One section per paragraph, or groups of three sentences for single-paragraph stories
+   */
+  private fakeSections(source: string) {
+    let chunks = source.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+
+    if (chunks.length < 2) {
+      const sentences = source.match(/[^.!?]+[.!?]+["')\]]*|[^.!?]+$/g)?.map(s => s.trim()).filter(Boolean) || [];
+      chunks = [];
+      for (let i = 0; i < sentences.length; i += 3) {
+        chunks.push(sentences.slice(i, i + 3).join(' '));
+      }
+    }
+
+    return chunks.map((script, index) => ({
+      sceneDescription: `Scene ${index + 1}: ${script.split(/(?<=[.!?])\s/)[0].substring(0, 120)}`,
+      script,
+    }));
+  }
+
+  /**
+   * The script with common abbreviations spelled out and a pause between paragraphs
+   */
+  private fakeNarration(source: string) {
+    return source
+      .replace(/\bMr\./g, 'Mister')
+      .replace(/\bMrs\./g, 'Missus')
+      .replace(/\bDr\./g, 'Doctor')
+      .replace(/\s*\n\s*\n\s*/g, ' <break time="0.8s" /> ')
+      .trim();
+  }
+
+  /**
+   * The script split evenly into shots, framed closer as the scene goes on
+   */
+  private fakeShots(source: string, count: number) {
+    const framing = ['wide', 'medium', 'close-up'];
+    const parts = splitScriptForClips(source, Array(count).fill(1));
+
+    return parts.map((action, index) => ({
+      shotType: index === 0 ? 'establishing' : framing[index % framing.length],
+      cameraMove: index === 0 ? 'pan' : 'static',
+      characters: [],
+      action,
+    }));
+  }
+
+  /**
+   * Characters are the capitalized words that recur in the story
+   */
+  private fakeStyle(source: string) {
+    const counts = new Map<string, number>();
+    for (const word of source.match(/\b[A-Z][a-z]{2,}\b/g) || []) {
+      if (!COMMON_CAPITALIZED.has(word)) {
+        counts.set(word, (counts.get(word) || 0) + 1);
+      }
+    }
+
+    const names = [...counts.entries()]
+      .filter(([, count]) => count >= 2)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, 3)
+      .map(([name]) => name);
+
+    return {
+      characters: names.map(name => ({
+        name,
+        description: `${name}, a character in the story`,
+        physicalTraits: `Friendly storybook depiction of ${name}`,
+      })),
+      setting: {
+        location: 'Storybook world',
+        timeperiod: 'Timeless',
+        atmosphere: 'Whimsical',
+      },
+      visualStyle: {
+        artStyle: 'Flat colour placeholder illustration',
+        colorPalette: 'Solid pastel colours',
+        cinematography: 'Static wide shots',
+      },
+    };
+  }
+}
+
+let crcTable: number[] | null = null;
+
+function crc32(buffer: Buffer): number {
+  if (!crcTable) {
+    crcTable = [];
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable.push(c >>> 0);
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+/**
+ * Solid-colour placeholder PNGs, coloured by a hash of the prompt
+ */
+export class FakeImageModel implements ImageModel {
+  readonly name = 'fake-image';
+
+  async generateImage(prompt: string, options: ImageGenerationOptions = {}): Promise<Buffer> {
+    const width = options.width || 1344;
+    const height = options.height || 768;
+    const [r, g, b] = colorFor(prompt);
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header[8] = 8; // bit depth
+    header[9] = 2; // colour type: RGB
+    header[10] = 0; // compression
+    header[11] = 0; // filter
+    header[12] = 0; // interlace
+
+    // Each row: filter byte (0) followed by RGB pixels
+    const row = Buffer.alloc(1 + width * 3);
+    for (let x = 0; x < width; x++) {
+      row[1 + x * 3] = r;
+      row[2 + x * 3] = g;
+      row[3 + x * 3] = b;
+    }
+    const raw = Buffer.concat(Array.from({ length: height }, () => row));
+
+    return Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      pngChunk('IHDR', header),
+      pngChunk('IDAT', zlib.deflateSync(raw)),
+      pngChunk('IEND', Buffer.alloc(0)),
+    ]);
+  }
+}
+
+// MPEG-1 Layer III, 32 kbps, 44.1 kHz, mono; all-zero side info decodes as silence
+const SILENT_MP3_FRAME = Buffer.concat([Buffer.from([0xff, 0xfb, 0x10, 0xc4]), Buffer.alloc(100)]);
+const MP3_FRAME_SECONDS = 1152 / 44100;
+const FAKE_WORDS_PER_SECOND = 2.5;
+
+/**
+ * Silent MP3s lasting roughly as long as the text would take to read aloud
+ */
+export class FakeSpeechModel implements SpeechModel {
+  readonly name = 'fake-speech';
+
+  async synthesize(text: string): Promise<Buffer> {
+    const words = text.split(/\s+/).filter(Boolean).length;
+    const seconds = Math.max(1, words / FAKE_WORDS_PER_SECOND);
+    const frames = Math.ceil(seconds / MP3_FRAME_SECONDS);
+    return Buffer.concat(Array.from({ length: frames }, () => SILENT_MP3_FRAME));
+  }
+}
+
+/**
+ * Solid-colour MP4 clips with a silent audio track (requires ffmpeg)
+ */
+export class FakeVideoModel implements VideoModel {
+  readonly name = 'fake-video';
+
+  async generateVideo(request: GeminiVeoRequest, outputPath: string): Promise<void> {
+    const [r, g, b] = colorFor(request.prompt);
+    const color = `0x${[r, g, b].map(c => c.toString(16).padStart(2, '0')).join('')}`;
+    const size = request.aspectRatio === '9:16' ? '720x1280' : '1280x720';
+    const duration = String(request.duration || 8);
+
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+    await runFfmpeg([
+      '-f', 'lavfi', '-i', `color=c=${color}:s=${size}:r=24:d=${duration}`,
+      '-f', 'lavfi', '-i', 'anullsrc=r=44100:cl=stereo',
+      '-t', duration,
+      '-c:v', 'libx264', '-pix_fmt', 'yuv420p',
+      '-c:a', 'aac',
+      '-shortest',
+      outputPath,
+    ]);
+  }
+}
@@ -0,0 +1,84 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GoogleGenAI } from '@google/genai';
+import { config } from '@/config';
+import { geminiVeo } from '@/services/geminiVeo';
+import { GeminiVeoRequest } from '@/types';
+import { ImageModel, TextGenerationOptions, TextModel, VideoModel } from './types';
+
+const GEMINI_TEXT_MODEL = 'gemini-2.0-flash-exp';
+const IMAGEN_MODEL = 'imagen-3.0-generate-001';
+
+/**
+ * Gemini text generation
+ */
+export class GeminiTextModel implements TextModel {
+  readonly name = GEMINI_TEXT_MODEL;
+  private genAI = new GoogleGenerativeAI(config.google.apiKey);
+
+  async generateText(prompt: string, options: TextGenerationOptions = {}): Promise<string> {
+    const model = this.genAI.getGenerativeModel({
+      model: GEMINI_TEXT_MODEL,
+      generationConfig: options.json ? { responseMimeType: 'application/json' } : undefined,
+    });
+    const result = await model.generateContent(prompt);
+    return result.response.text().trim();
+  }
+}
+
+/**
+ * Imagen image generation
+ * NOTE: Requires Vertex AI setup - see https://cloud.google.com/vertex-ai/docs/generative-ai/image/overview
+ */
+export class ImagenImageModel implements ImageModel {
+  readonly name = IMAGEN_MODEL;
+  private ai = new GoogleGenAI({ apiKey: config.google.apiKey });
+
+  async generateImage(prompt: string): Promise<Buffer> {
+    try {
+      const result = await this.ai.models.generateImages({
+        model: IMAGEN_MODEL,
+        prompt,
+        config: {
+          numberOfImages: 1,
+          aspectRatio: '16:9',
+        },
+      });
+
+      const imageBytes = result.generatedImages?.[0]?.image?.imageBytes;
+      if (!imageBytes) {
+        throw new Error('Imagen returned no image');
+      }
+
+      return Buffer.from(imageBytes, 'base64');
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+
+      if (errorMsg.includes('not found') || errorMsg.includes('NOT_FOUND')) {
+        throw new Error(
+          'Imagen not available. This feature requires Google Cloud Vertex AI setup.\n' +
+          'To enable image generation:\n' +
+          '1. Enable Vertex AI API in Google Cloud Console\n' +
+          '2. Set up authentication with service account\n' +
+          '3. Set IMAGE_PROVIDER=imagen in .env\n' +
+          'See: https://cloud.google.com/vertex-ai/docs/generative-ai/image/overview'
+        );
+      }
+
+      throw new Error(`Image generation failed: ${errorMsg}`);
+    }
+  }
+}
+
+/**
+ * Veo video generation (polling and download handled by the Gemini Veo service)
+ */
+export class VeoVideoModel implements VideoModel {
+  readonly name = 'veo-3.0-generate-001';
+
+  async generateVideo(request: GeminiVeoRequest, outputPath: string): Promise<void> {
+    const result = await geminiVeo.generateVideoWithRetry(request, outputPath, config.veo.maxRetries);
+    if (!result.success) {
+      throw new Error(result.error || 'Video generation failed');
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { config } from '@/config';
+import { ElevenLabsSpeechModel } from './elevenlabs';
+import { FakeImageModel, FakeSpeechModel, FakeTextModel, FakeVideoModel } from './fake';
+import { GeminiTextModel, ImagenImageModel, VeoVideoModel } from './google';
+import { StabilityImageModel } from './stability';
+import { ImageModel, SpeechModel, TextModel, VideoModel } from './types';
+
+export * from './types';
+
+/**
+ * Registry of the generative backends selected in config.providers.
+ * Implementations are created on first use, so unused vendors never need credentials.
+ */
+export class ProviderRegistry {
+  private textModel?: TextModel;
+  private imageModel?: ImageModel;
+  private speechModel?: SpeechModel;
+  private videoModel?: VideoModel;
+
+  get text(): TextModel {
+    if (!this.textModel) {
+      this.textModel = config.providers.text === 'fake' ? new FakeTextModel() : new GeminiTextModel();
+    }
+    return this.textModel;
+  }
+
+  get image(): ImageModel {
+    if (!this.imageModel) {
+      switch (config.providers.image) {
+        case 'fake':
+          this.imageModel = new FakeImageModel();
+          break;
+        case 'imagen':
+          this.imageModel = new ImagenImageModel();
+          break;
+        default:
+          this.imageModel = new StabilityImageModel();
+      }
+    }
+    return this.imageModel;
+  }
+
+  get speech(): SpeechModel {
+    if (!this.speechModel) {
+      this.speechModel = config.providers.speech === 'fake' ? new FakeSpeechModel() : new ElevenLabsSpeechModel();
+    }
+    return this.speechModel;
+  }
+
+  get video(): VideoModel {
+    if (!this.videoModel) {
+      this.videoModel = config.providers.video === 'fake' ? new FakeVideoModel() : new VeoVideoModel();
+    }
+    return this.videoModel;
+  }
+}
+
+export const providers = new ProviderRegistry();
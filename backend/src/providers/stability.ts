@@ -0,0 +1,45 @@
+import fetch from 'node-fetch';
+import { config } from '@/config';
+import { ImageGenerationOptions, ImageModel } from './types';
+
+/**
+ * Stability AI (SDXL) text-to-image generation
+ */
+export class StabilityImageModel implements ImageModel {
+  readonly name = 'stable-diffusion-xl-1024-v1-0';
+
+  async generateImage(prompt: string, options: ImageGenerationOptions = {}): Promise<Buffer> {
+    if (!config.stability.apiKey) {
+      throw new Error('STABILITY_API_KEY is not set');
+    }
+
+    const response = await fetch(`https://api.stability.ai/v1/generation/${this.name}/text-to-image`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${config.stability.apiKey}`,
+        'Content-Type': 'application/json',
+        'Accept': 'application/json'
+      },
+      body: JSON.stringify({
+        text_prompts: [{ text: prompt }],
+        cfg_scale: 7,
+        height: options.height || 768,
+        width: options.width || 1344,
+        samples: 1,
+        steps: 30
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Stability API error: ${response.status} ${await response.text()}`);
+    }
+
+    const data = (await response.json()) as { artifacts?: Array<{ base64?: string }> };
+    const base64Image = data?.artifacts?.[0]?.base64;
+    if (!base64Image) {
+      throw new Error('Stability API returned no image');
+    }
+
+    return Buffer.from(base64Image, 'base64');
+  }
+}
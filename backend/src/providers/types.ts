@@ -0,0 +1,60 @@
+import { GeminiVeoRequest, SpeechAlignment } from '@/types';
+
+// Provider interfaces for the generative backends used by the pipeline.
+// Services depend on these instead of constructing vendor clients directly.
+
+export type TextProviderName = 'gemini' | 'fake';
+export type ImageProviderName = 'stability' | 'imagen' | 'fake';
+export type SpeechProviderName = 'elevenlabs' | 'fake';
+export type VideoProviderName = 'veo' | 'fake';
+
+export interface TextGenerationOptions {
+  /** What the prompt asks for, so offline providers can return a matching canned response */
+  task?: 'sections' | 'style' | 'prompt' | 'narration' | 'shots';
+  /** The source text the prompt is about (e.g., the story or a section script) */
+  source?: string;
+  /** How many items the prompt asks for (e.g., shots), for offline providers */
+  count?: number;
+  /** Ask for a JSON response (Gemini's JSON response mode) */
+  json?: boolean;
+}
+
+export interface TextModel {
+  readonly name: string;
+  generateText(prompt: string, options?: TextGenerationOptions): Promise<string>;
+}
+
+export interface ImageGenerationOptions {
+  width?: number;
+  height?: number;
+}
+
+export interface ImageModel {
+  readonly name: string;
+  /** Returns PNG image bytes */
+  generateImage(prompt: string, options?: ImageGenerationOptions): Promise<Buffer>;
+}
+
+export interface SpeechOptions {
+  voiceId?: string;
+}
+
+export interface SpeechResult {
+  /** MP3 audio bytes */
+  audio: Buffer;
+  alignment: SpeechAlignment;
+}
+
+export interface SpeechModel {
+  readonly name: string;
+  /** Returns MP3 audio bytes */
+  synthesize(text: string, options?: SpeechOptions): Promise<Buffer>;
+  /** Synthesize with character-level timestamps, for providers that support it */
+  synthesizeWithTimestamps?(text: string, options?: SpeechOptions): Promise<SpeechResult>;
+}
+
+export interface VideoModel {
+  readonly name: string;
+  /** Generate a video clip and write it as MP4 to outputPath */
+  generateVideo(request: GeminiVeoRequest, outputPath: string): Promise<void>;
+}
@@ -1,8 +1,5 @@
 import { Router, Request, Response } from 'express';
 import { fileStorage } from '@/utils/fileStorage';
-import fs from 'fs';
-import path from 'path';
-import { config } from '@/config';
 
 const router = Router();
 
@@ -41,31 +38,28 @@ router.get('/:storyId/reference', async (req: Request, res: Response) => {
 });
 
 /**
- * GET /api/images/:storyId/:segmentId
- * Get the thumbnail/image for a specific segment (if available)
+ * GET /api/images/:storyId/characters/:name
+ * Get the portrait of a story character
  */
-router.get('/:storyId/:segmentId', async (req: Request, res: Response) => {
+router.get('/:storyId/characters/:name', async (req: Request, res: Response) => {
   try {
-    const { storyId, segmentId } = req.params;
-    
-    const imagePath = path.join(
-      config.storage.imagesDir,
-      storyId,
-      `segment-${segmentId}.png`
-    );
+    const { storyId, name } = req.params;
 
-    // Check if image file exists
-    const imageExists = await fileStorage.fileExists(imagePath);
-    if (!imageExists) {
-      return res.status(404).json({ error: 'Image not found' });
+    const story = await fileStorage.loadStoryData(storyId);
+    if (!story) {
+      return res.status(404).json({ error: 'Story not found' });
     }
 
-    // Serve the image
-    res.sendFile(imagePath);
+    const portrait = story.characterPortraits?.find(p => p.name.toLowerCase() === name.toLowerCase());
+    if (!portrait || !await fileStorage.fileExists(portrait.imagePath)) {
+      return res.status(404).json({ error: 'Character portrait not found' });
+    }
+
+    res.sendFile(portrait.imagePath);
   } catch (error) {
-    console.error('Error serving segment image:', error);
+    console.error('Error serving character portrait:', error);
     res.status(500).json({
-      error: 'Failed to serve image',
+      error: 'Failed to serve character portrait',
     });
   }
 });
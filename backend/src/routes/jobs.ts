@@ -0,0 +1,80 @@
+import { Router, Request, Response } from 'express';
+import { jobQueue } from '@/services/jobQueue';
+import { JobStatus } from '@/types';
+
+const router = Router();
+
+/**
+ * GET /api/jobs
+ * List jobs, optionally filtered by ?storyId= and ?status=
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const storyId = typeof req.query.storyId === 'string' ? req.query.storyId : undefined;
+    const status = typeof req.query.status === 'string' ? req.query.status as JobStatus : undefined;
+
+    const jobs = await jobQueue.listJobs({ storyId, status });
+    res.json(jobs);
+  } catch (error) {
+    console.error('Error listing jobs:', error);
+    res.status(500).json({
+      error: 'Failed to list jobs',
+    });
+  }
+});
+
+/**
+ * GET /api/jobs/:jobId
+ * Get a job with its recorded steps
+ */
+router.get('/:jobId', async (req: Request, res: Response) => {
+  try {
+    const { jobId } = req.params;
+    const job = await jobQueue.getJob(jobId);
+
+    if (!job) {
+      return res.status(404).json({
+        error: 'Job not found',
+      });
+    }
+
+    res.json(job);
+  } catch (error) {
+    console.error('Error fetching job:', error);
+    res.status(500).json({
+      error: 'Failed to fetch job',
+    });
+  }
+});
+
+/**
+ * POST /api/jobs/:jobId/cancel
+ * Cancel a queued or running job
+ */
+router.post('/:jobId/cancel', async (req: Request, res: Response) => {
+  try {
+    const { jobId } = req.params;
+    const job = await jobQueue.cancel(jobId);
+
+    if (!job) {
+      return res.status(404).json({
+        error: 'Job not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      job,
+      message: job.status === 'running'
+        ? 'Cancellation requested; the job stops after its current step'
+        : `Job is ${job.status}`,
+    });
+  } catch (error) {
+    console.error('Error cancelling job:', error);
+    res.status(500).json({
+      error: 'Failed to cancel job',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,248 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { config } from '@/config';
+import { sectionEditor, SectionEditError } from '@/services/sectionEditor';
+import { audioMixer } from '@/services/audioMixer';
+import { shotListSchema } from '@/schemas/shots';
+import { fileStorage } from '@/utils/fileStorage';
+import { streamFile } from '@/utils/mediaStream';
+import { StoryData, StorySection } from '@/types';
+
+// Mounted at /api/stories/:id/sections
+const router = Router({ mergeParams: true });
+
+const text = z.string().trim().min(1);
+
+const updateSchema = z.object({
+  sceneDescription: text.optional(),
+  script: text.optional(),
+  duration: z.number().positive().max(60).optional(),
+}).strict().refine(body => Object.keys(body).length > 0, 'Nothing to update');
+
+const splitSchema = z.object({
+  at: z.number().int().positive().optional(),
+  sceneDescription: text.optional(),
+}).strict();
+
+const mergeSchema = z.object({
+  sectionIds: z.array(z.number().int().positive()).min(2),
+}).strict();
+
+const reorderSchema = z.object({
+  order: z.array(z.number().int().positive()).min(1),
+}).strict();
+
+const insertSchema = z.object({
+  sceneDescription: text,
+  script: text,
+  duration: z.number().positive().max(60).optional(),
+  position: z.number().int().positive().optional(),
+}).strict();
+
+/**
+ * Run a section edit and send the updated section list, mapping validation
+ * and edit errors to 4xx responses
+ */
+async function handleEdit(res: Response, action: string, edit: () => Promise<StoryData>) {
+  try {
+    const story = await edit();
+    res.json({
+      success: true,
+      sections: story.sections,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Invalid request body',
+        details: error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`),
+      });
+    }
+    if (error instanceof SectionEditError) {
+      return res.status(error.status).json({
+        error: error.message,
+      });
+    }
+    console.error(`Error trying to ${action}:`, error);
+    res.status(500).json({
+      error: `Failed to ${action}`,
+    });
+  }
+}
+
+/**
+ * Send one of a section's stored files, with range and conditional request support
+ */
+async function sendSectionFile(
+  req: Request,
+  res: Response,
+  label: string,
+  pickPath: (section: StorySection) => string | undefined
+) {
+  try {
+    const story = await fileStorage.loadStoryData(req.params.id);
+    if (!story) {
+      return res.status(404).json({ error: 'Story not found' });
+    }
+
+    const section = story.sections.find(s => s.id === parseInt(req.params.sectionId));
+    if (!section) {
+      return res.status(404).json({ error: 'Section not found' });
+    }
+
+    const filePath = pickPath(section);
+    if (!filePath || !await fileStorage.fileExists(filePath)) {
+      return res.status(404).json({ error: `${label} not found` });
+    }
+
+    streamFile(req, res, filePath);
+  } catch (error) {
+    console.error(`Error serving ${label.toLowerCase()}:`, error);
+    res.status(500).json({
+      error: `Failed to serve ${label.toLowerCase()}`,
+    });
+  }
+}
+
+/**
+ * GET /api/stories/:id/sections/:sectionId/audio
+ * Stream a section's audio: the mix of narration, music and sound effects when there
+ * is one (?variant=narration for the narration alone)
+ */
+router.get('/:sectionId/audio', (req: Request, res: Response) =>
+  sendSectionFile(req, res, 'Audio', section =>
+    req.query.variant === 'narration' ? section.audioPath : audioMixer.getPlaybackAudio(section)
+  )
+);
+
+/**
+ * GET /api/stories/:id/sections/:sectionId/background
+ * Get a section's background image
+ */
+router.get('/:sectionId/background', (req: Request, res: Response) =>
+  sendSectionFile(req, res, 'Background image', section => section.backgroundImagePath)
+);
+
+/**
+ * GET /api/stories/:id/sections/:sectionId/script
+ * Get a section's script as plain text (?variant=narration for the narration script)
+ */
+router.get('/:sectionId/script', (req: Request, res: Response) =>
+  sendSectionFile(req, res, 'Script', section =>
+    req.query.variant === 'narration' ? section.narrationScriptPath : section.scriptPath
+  )
+);
+
+/**
+ * GET /api/stories/:id/sections/:sectionId/shots
+ * Get a section's shot list (empty until planned) and the clip lengths shots can have
+ */
+router.get('/:sectionId/shots', async (req: Request, res: Response) => {
+  try {
+    const story = await fileStorage.loadStoryData(req.params.id);
+    if (!story) {
+      return res.status(404).json({ error: 'Story not found' });
+    }
+
+    const section = story.sections.find(s => s.id === parseInt(req.params.sectionId));
+    if (!section) {
+      return res.status(404).json({ error: 'Section not found' });
+    }
+
+    res.json({
+      shots: section.shots ?? [],
+      clipLengths: config.video.clipLengths,
+    });
+  } catch (error) {
+    console.error('Error getting shots:', error);
+    res.status(500).json({
+      error: 'Failed to get shots',
+    });
+  }
+});
+
+/**
+ * PUT /api/stories/:id/sections/:sectionId/shots
+ * Replace a section's shot list (body: shots). Its video becomes stale.
+ */
+router.put('/:sectionId/shots', (req: Request, res: Response) =>
+  handleEdit(res, 'update shots', () =>
+    sectionEditor.setShots(req.params.id, parseInt(req.params.sectionId), shotListSchema.parse(req.body).shots)
+  )
+);
+
+/**
+ * POST /api/stories/:id/sections/:sectionId/shots/plan
+ * Plan a new shot list for a section with the text model
+ */
+router.post('/:sectionId/shots/plan', (req: Request, res: Response) =>
+  handleEdit(res, 'plan shots', () => sectionEditor.planShots(req.params.id, parseInt(req.params.sectionId)))
+);
+
+/**
+ * DELETE /api/stories/:id/sections/:sectionId/shots
+ * Remove a section's shot list; a new one is planned when its video is next generated
+ */
+router.delete('/:sectionId/shots', (req: Request, res: Response) =>
+  handleEdit(res, 'clear shots', () => sectionEditor.clearShots(req.params.id, parseInt(req.params.sectionId)))
+);
+
+/**
+ * POST /api/stories/:id/sections
+ * Insert a new section (body: sceneDescription, script, duration?, position?)
+ */
+router.post('/', (req: Request, res: Response) =>
+  handleEdit(res, 'insert section', () =>
+    sectionEditor.insertSection(req.params.id, insertSchema.parse(req.body))
+  )
+);
+
+/**
+ * POST /api/stories/:id/sections/merge
+ * Merge consecutive sections (body: sectionIds)
+ */
+router.post('/merge', (req: Request, res: Response) =>
+  handleEdit(res, 'merge sections', () =>
+    sectionEditor.mergeSections(req.params.id, mergeSchema.parse(req.body).sectionIds)
+  )
+);
+
+/**
+ * POST /api/stories/:id/sections/repair
+ * Replace scripts with the exact story text (see GET /api/stories/:id/fidelity)
+ */
+router.post('/repair', (req: Request, res: Response) =>
+  handleEdit(res, 'repair scripts', () => sectionEditor.repairScripts(req.params.id))
+);
+
+/**
+ * PUT /api/stories/:id/sections/order
+ * Reorder sections (body: order, every section id in the new order)
+ */
+router.put('/order', (req: Request, res: Response) =>
+  handleEdit(res, 'reorder sections', () =>
+    sectionEditor.reorderSections(req.params.id, reorderSchema.parse(req.body).order)
+  )
+);
+
+/**
+ * PATCH /api/stories/:id/sections/:sectionId
+ * Edit a section's sceneDescription, script or duration
+ */
+router.patch('/:sectionId', (req: Request, res: Response) =>
+  handleEdit(res, 'update section', () =>
+    sectionEditor.updateSection(req.params.id, parseInt(req.params.sectionId), updateSchema.parse(req.body))
+  )
+);
+
+/**
+ * POST /api/stories/:id/sections/:sectionId/split
+ * Split a section in two (body: at?, character offset in the script; sceneDescription? for the second half)
+ */
+router.post('/:sectionId/split', (req: Request, res: Response) =>
+  handleEdit(res, 'split section', () => {
+    const { at, sceneDescription } = splitSchema.parse(req.body);
+    return sectionEditor.splitSection(req.params.id, parseInt(req.params.sectionId), at, sceneDescription);
+  })
+);
+
+export default router;
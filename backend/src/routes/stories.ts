@@ -1,12 +1,28 @@
 import { Router, Request, Response } from 'express';
 import { fileStorage } from '@/utils/fileStorage';
+import { createStorySchema } from '@/schemas/story';
 import { storyProcessor } from '@/services/processor';
-import { ProcessingStatus } from '@/types';
+import { fileParser } from '@/services/fileParser';
+import { storyCreator } from '@/services/storyCreator';
+import { jobQueue } from '@/services/jobQueue';
+import { captionService } from '@/services/captionService';
+import { scriptAlignment } from '@/services/scriptAlignment';
+import { streamFile } from '@/utils/mediaStream';
+import { CaptionFormat, ProcessingStatus, UploadResponse } from '@/types';
 import fs from 'fs/promises';
 import path from 'path';
 
 const router = Router();
 
+/**
+ * Caption format from the query string (WebVTT unless SRT is asked for)
+ */
+function parseCaptionFormat(value: unknown): CaptionFormat | null {
+  if (value === undefined || value === 'vtt') return 'vtt';
+  if (value === 'srt') return 'srt';
+  return null;
+}
+
 /**
  * GET /api/stories/:id
  * Get story data by ID
@@ -52,7 +68,6 @@ router.get('/:id/status', async (req: Request, res: Response) => {
       progress: story.progress,
       currentStep: story.currentStep,
       sections: story.sections,
-      segments: story.segments, // Legacy support
       styleInfo: story.styleInfo,
       error: story.error,
     };
@@ -82,6 +97,59 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/stories
+ * Create a story from JSON: text, title?, style? (hints over the extracted style),
+ * sections? (skips analysis) and segmentation? overrides. Processing starts right away.
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const parsed = createStorySchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request body',
+        details: parsed.error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`),
+      });
+    }
+
+    const { title, style, sections, segmentation } = parsed.data;
+    const text = parsed.data.text ?? sections!.map(section => section.script).join('\n\n');
+    if (!fileParser.validateContent(text)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid story text. It must contain between 100 and 100,000 characters.',
+      });
+    }
+
+    console.log(`\n📝 Story submitted: ${title || 'Untitled story'}`);
+
+    // Submitted text is stored like an uploaded .txt file
+    const { story, job } = await storyCreator.createStory({
+      text,
+      originalFilename: `${title || 'Untitled story'}.txt`,
+      segmentation,
+      styleHints: style,
+      sections,
+    });
+
+    const response: UploadResponse = {
+      success: true,
+      storyId: story.id,
+      jobId: job.id,
+      message: 'Story created. Processing started.',
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error creating story:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create story',
+    });
+  }
+});
+
 /**
  * DELETE /api/stories/:id
  * Delete a story
@@ -89,7 +157,16 @@ router.get('/', async (req: Request, res: Response) => {
 router.delete('/:id', async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    await fileStorage.deleteStory(id);
+
+    const story = await fileStorage.loadStoryData(id);
+    if (!story) {
+      return res.status(404).json({
+        error: 'Story not found',
+      });
+    }
+
+    await jobQueue.cancelForStory(id);
+    await fileStorage.deleteStory(id, story.storyName);
     
     res.json({
       success: true,
@@ -103,6 +180,78 @@ router.delete('/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/stories/:id/regenerate
+ * Run the whole pipeline again from the story text (style, sections and all assets)
+ */
+router.post('/:id/regenerate', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const story = await fileStorage.loadStoryData(id);
+    if (!story) {
+      return res.status(404).json({
+        error: 'Story not found',
+      });
+    }
+
+    if (await jobQueue.hasActiveJob(id)) {
+      return res.status(409).json({
+        error: 'Story is already being processed',
+      });
+    }
+
+    story.status = 'uploaded';
+    story.progress = 5;
+    story.currentStep = 'Queued for regeneration';
+    delete story.error;
+    await fileStorage.saveStoryData(id, story);
+
+    const job = await jobQueue.enqueue('process-story', id);
+
+    res.json({
+      success: true,
+      jobId: job.id,
+      message: 'Regeneration started',
+    });
+  } catch (error) {
+    console.error('Error starting regeneration:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to start regeneration',
+    });
+  }
+});
+
+/**
+ * GET /api/stories/:id/fidelity
+ * Check that section scripts reproduce the story text: gaps, overlaps and changed text
+ */
+router.get('/:id/fidelity', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const story = await fileStorage.loadStoryData(id);
+    if (!story) {
+      return res.status(404).json({
+        error: 'Story not found',
+      });
+    }
+
+    if (!story.textContent) {
+      return res.status(409).json({
+        error: 'Story has no source text',
+      });
+    }
+
+    res.json(scriptAlignment.check(story.textContent, story.sections));
+  } catch (error) {
+    console.error('Error checking script fidelity:', error);
+    res.status(500).json({
+      error: 'Failed to check script fidelity',
+    });
+  }
+});
+
 /**
  * POST /api/stories/:id/sections/:sectionId/background
  * Generate background image for a section
@@ -176,14 +325,20 @@ router.post('/:id/sections/:sectionId/video', async (req: Request, res: Response
 router.post('/:id/videos/generate-all', async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
+
+    const story = await fileStorage.loadStoryData(id);
+    if (!story) {
+      return res.status(404).json({
+        error: 'Story not found',
+      });
+    }
     
-    // Start generation in background
-    storyProcessor.generateAllVideos(id).catch(error => {
-      console.error('Background video generation error:', error);
-    });
+    // Queue generation in background
+    const job = await jobQueue.enqueue('generate-all-videos', id);
     
     res.json({
       success: true,
+      jobId: job.id,
       message: 'Video generation started for all sections',
     });
   } catch (error) {
@@ -195,31 +350,177 @@ router.post('/:id/videos/generate-all', async (req: Request, res: Response) => {
 });
 
 /**
- * GET /api/stories/:id/style
- * Get extracted style information for a story
+ * POST /api/stories/:id/rebuild
+ * Regenerate only stale or missing assets (body: { dryRun?: boolean } to just list them)
+ */
+router.post('/:id/rebuild', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const story = await fileStorage.loadStoryData(id);
+    if (!story) {
+      return res.status(404).json({
+        error: 'Story not found',
+      });
+    }
+
+    const plan = storyProcessor.getRebuildPlan(story);
+    const upToDate = !plan.referenceImage && !plan.characterPortraits && plan.sections.length === 0;
+    if (req.body?.dryRun === true || upToDate) {
+      return res.json({
+        success: true,
+        plan,
+        message: upToDate ? 'All assets are up to date' : 'Dry run, nothing regenerated',
+      });
+    }
+
+    const job = await jobQueue.enqueue('rebuild-story', id);
+
+    res.json({
+      success: true,
+      jobId: job.id,
+      plan,
+      message: 'Rebuild started',
+    });
+  } catch (error) {
+    console.error('Error starting rebuild:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to start rebuild',
+    });
+  }
+});
+
+/**
+ * POST /api/stories/:id/movie
+ * Assemble all sections into a single movie (background job)
  */
-router.get('/:id/style', async (req: Request, res: Response) => {
+router.post('/:id/movie', async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
+
     const story = await fileStorage.loadStoryData(id);
+    if (!story) {
+      return res.status(404).json({
+        error: 'Story not found',
+      });
+    }
+
+    if (story.sections.length === 0) {
+      return res.status(409).json({
+        error: 'Story has no sections yet',
+      });
+    }
+
+    const job = await jobQueue.enqueue('assemble-movie', id);
+
+    res.json({
+      success: true,
+      jobId: job.id,
+      message: 'Movie assembly started',
+    });
+  } catch (error) {
+    console.error('Error starting movie assembly:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to start movie assembly',
+    });
+  }
+});
+
+/**
+ * GET /api/stories/:id/movie
+ * Stream the assembled movie (supports range requests)
+ */
+router.get('/:id/movie', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
 
+    const story = await fileStorage.loadStoryData(id);
+    if (!story) {
+      return res.status(404).json({
+        error: 'Story not found',
+      });
+    }
+
+    if (!story.moviePath || !(await fileStorage.fileExists(story.moviePath))) {
+      return res.status(404).json({
+        error: 'Movie not assembled yet',
+      });
+    }
+
+    streamFile(req, res, story.moviePath, 'video/mp4');
+  } catch (error) {
+    console.error('Error streaming movie:', error);
+    res.status(500).json({
+      error: 'Failed to stream movie',
+    });
+  }
+});
+
+/**
+ * GET /api/stories/:id/captions?format=vtt|srt
+ * Captions for the whole story, timed to match the final movie
+ */
+router.get('/:id/captions', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const format = parseCaptionFormat(req.query.format);
+    if (!format) {
+      return res.status(400).json({
+        error: 'format must be vtt or srt',
+      });
+    }
+
+    const story = await fileStorage.loadStoryData(id);
+    if (!story) {
+      return res.status(404).json({
+        error: 'Story not found',
+      });
+    }
+
+    const cues = await captionService.buildStoryCaptions(story);
+    res.type(captionService.contentType(format)).send(captionService.format(cues, format));
+  } catch (error) {
+    console.error('Error generating captions:', error);
+    res.status(500).json({
+      error: 'Failed to generate captions',
+    });
+  }
+});
+
+/**
+ * GET /api/stories/:id/captions/:sectionId?format=vtt|srt
+ * Captions for one section, timed to its narration audio
+ */
+router.get('/:id/captions/:sectionId', async (req: Request, res: Response) => {
+  try {
+    const { id, sectionId } = req.params;
+    const format = parseCaptionFormat(req.query.format);
+    if (!format) {
+      return res.status(400).json({
+        error: 'format must be vtt or srt',
+      });
+    }
+
+    const story = await fileStorage.loadStoryData(id);
     if (!story) {
       return res.status(404).json({
         error: 'Story not found',
       });
     }
 
-    if (!story.styleInfo) {
+    const section = story.sections.find(s => s.id === parseInt(sectionId));
+    if (!section) {
       return res.status(404).json({
-        error: 'Style information not yet extracted',
+        error: 'Section not found',
       });
     }
 
-    res.json(story.styleInfo);
+    const { cues } = await captionService.buildSectionCaptions(story, section);
+    res.type(captionService.contentType(format)).send(captionService.format(cues, format));
   } catch (error) {
-    console.error('Error fetching style info:', error);
+    console.error('Error generating captions:', error);
     res.status(500).json({
-      error: 'Failed to fetch style information',
+      error: 'Failed to generate captions',
     });
   }
 });
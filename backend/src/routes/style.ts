@@ -0,0 +1,156 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { fileStorage } from '@/utils/fileStorage';
+import { storyProcessor } from '@/services/processor';
+import { styleEditor, StyleEditError } from '@/services/styleEditor';
+import { voiceCasting } from '@/services/voiceCasting';
+import { characterSchema, storyStylePatchSchema, storyStyleSchema, voiceCastingPatchSchema } from '@/schemas/style';
+import { StoryData } from '@/types';
+
+// Mounted at /api/stories/:id/style
+const router = Router({ mergeParams: true });
+
+/**
+ * Run a style edit and send the new style (or casting) with what it made stale,
+ * mapping validation and edit errors to 4xx responses
+ */
+async function handleEdit(
+  res: Response,
+  action: string,
+  edit: () => Promise<StoryData>,
+  view: (story: StoryData) => Record<string, unknown> = story => ({ style: story.styleInfo })
+) {
+  try {
+    const story = await edit();
+    res.json({
+      success: true,
+      ...view(story),
+      rebuild: storyProcessor.getRebuildPlan(story),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Invalid style',
+        details: error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`),
+      });
+    }
+    if (error instanceof StyleEditError) {
+      return res.status(error.status).json({
+        error: error.message,
+      });
+    }
+    console.error(`Error trying to ${action}:`, error);
+    res.status(500).json({
+      error: `Failed to ${action}`,
+    });
+  }
+}
+
+/**
+ * GET /api/stories/:id/style
+ * Get extracted style information for a story
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const story = await fileStorage.loadStoryData(id);
+
+    if (!story) {
+      return res.status(404).json({
+        error: 'Story not found',
+      });
+    }
+
+    if (!story.styleInfo) {
+      return res.status(404).json({
+        error: 'Style information not yet extracted',
+      });
+    }
+
+    res.json(story.styleInfo);
+  } catch (error) {
+    console.error('Error fetching style info:', error);
+    res.status(500).json({
+      error: 'Failed to fetch style information',
+    });
+  }
+});
+
+/**
+ * PUT /api/stories/:id/style
+ * Replace the style (characters, setting, visualStyle)
+ */
+router.put('/', (req: Request, res: Response) =>
+  handleEdit(res, 'update style', () =>
+    styleEditor.replaceStyle(req.params.id, storyStyleSchema.parse(req.body))
+  )
+);
+
+/**
+ * PATCH /api/stories/:id/style
+ * Update part of the style; setting and visualStyle merge, characters replace the list
+ */
+router.patch('/', (req: Request, res: Response) =>
+  handleEdit(res, 'update style', () =>
+    styleEditor.patchStyle(req.params.id, storyStylePatchSchema.parse(req.body))
+  )
+);
+
+/**
+ * POST /api/stories/:id/style/characters
+ * Add a character (body: name, description, physicalTraits)
+ */
+router.post('/characters', (req: Request, res: Response) =>
+  handleEdit(res, 'add character', () =>
+    styleEditor.addCharacter(req.params.id, characterSchema.parse(req.body))
+  )
+);
+
+/**
+ * DELETE /api/stories/:id/style/characters/:name
+ * Remove a character by name (case-insensitive)
+ */
+router.delete('/characters/:name', (req: Request, res: Response) =>
+  handleEdit(res, 'remove character', () =>
+    styleEditor.removeCharacter(req.params.id, req.params.name)
+  )
+);
+
+/**
+ * GET /api/stories/:id/style/voices
+ * Get the narrator and character voices, including automatic choices not yet saved
+ */
+router.get('/voices', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const story = await fileStorage.loadStoryData(id);
+
+    if (!story) {
+      return res.status(404).json({
+        error: 'Story not found',
+      });
+    }
+
+    res.json(voiceCasting.resolve(story));
+  } catch (error) {
+    console.error('Error fetching voice casting:', error);
+    res.status(500).json({
+      error: 'Failed to fetch voice casting',
+    });
+  }
+});
+
+/**
+ * PATCH /api/stories/:id/style/voices
+ * Recast voices (body: narrator?, characters?: { [name]: voiceId | null })
+ */
+router.patch('/voices', (req: Request, res: Response) =>
+  handleEdit(
+    res,
+    'cast voices',
+    () => styleEditor.castVoices(req.params.id, voiceCastingPatchSchema.parse(req.body)),
+    story => ({ voices: voiceCasting.resolve(story) })
+  )
+);
+
+export default router;
@@ -3,10 +3,10 @@ import multer from 'multer';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { config } from '@/config';
+import { segmentationOverridesSchema } from '@/schemas/segmentation';
 import { fileParser } from '@/services/fileParser';
-import { fileStorage } from '@/utils/fileStorage';
-import { storyProcessor } from '@/services/processor';
-import { StoryData, UploadResponse } from '@/types';
+import { storyCreator } from '@/services/storyCreator';
+import { UploadResponse } from '@/types';
 
 const router = Router();
 
@@ -25,18 +25,18 @@ const upload = multer({
     fileSize: config.storage.maxFileSize,
   },
   fileFilter: (req, file, cb) => {
-    const allowedTypes = ['text/plain', 'application/pdf'];
-    if (allowedTypes.includes(file.mimetype)) {
+    if (fileParser.detectFormat(file.originalname, file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error('Invalid file type. Only .txt and .pdf files are allowed.'));
+      cb(new Error('Invalid file type. Allowed: .txt, .pdf, .docx, .epub, .md, .html and .rtf files.'));
     }
   },
 });
 
 /**
  * POST /api/upload
- * Upload a story file
+ * Upload a story file. Optional form fields fixedSegmentCount, minSegments,
+ * maxSegments and wordsPerSegment override the segmentation config for this story.
  */
 router.post('/upload', upload.single('file'), async (req: Request, res: Response) => {
   try {
@@ -47,11 +47,20 @@ router.post('/upload', upload.single('file'), async (req: Request, res: Response
       });
     }
 
-    const storyId = uuidv4();
+    const overrides = segmentationOverridesSchema.safeParse(req.body ?? {});
+    if (!overrides.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid segmentation settings',
+        details: overrides.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`),
+      });
+    }
+
     const file = req.file;
 
-    // Parse file content
-    const textContent = await fileParser.parseFile(file.path, file.mimetype);
+    // Parse file content (the filter only lets supported formats through)
+    const format = fileParser.detectFormat(file.originalname, file.mimetype)!;
+    const textContent = await fileParser.parseFile(file.path, format);
     
     // Validate content
     if (!fileParser.validateContent(textContent)) {
@@ -61,39 +70,21 @@ router.post('/upload', upload.single('file'), async (req: Request, res: Response
       });
     }
 
-    // Clean content
-    const cleanedContent = fileParser.cleanContent(textContent);
-
-    // Create story data
-    const storyData: StoryData = {
-      id: storyId,
-      storyName: fileStorage.sanitizeStoryName(file.originalname),
-      originalFilename: file.originalname,
-      uploadedAt: new Date().toISOString(),
-      status: 'uploaded',
-      progress: 5,
-      currentStep: 'File uploaded successfully',
-      textContent: cleanedContent,
-      sections: [],
-      segments: [], // Legacy support
-    };
-
-    // Save story data to local storage
-    await fileStorage.saveStoryData(storyId, storyData);
-    
     console.log(`\n📄 File uploaded: ${file.originalname}`);
-    console.log(`Story ID: ${storyId}`);
-    console.log(`Content length: ${cleanedContent.length} characters`);
 
-    // Start processing pipeline in background
+    // Save the story and queue the processing pipeline
     // Flow: PDF -> Parse -> Extract Style -> Create Segments -> Generate Videos
-    storyProcessor.processStory(storyId).catch(error => {
-      console.error('Background processing error:', error);
+    const { story, job } = await storyCreator.createStory({
+      text: textContent,
+      originalFilename: file.originalname,
+      currentStep: 'File uploaded successfully',
+      segmentation: overrides.data,
     });
 
     const response: UploadResponse = {
       success: true,
-      storyId,
+      storyId: story.id,
+      jobId: job.id,
       message: 'File uploaded successfully. Processing started.',
     };
 
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+// Validation for the section breakdown returned by the story analysis prompt
+
+export const analyzedSectionSchema = z.object({
+  sectionName: z.string().trim().min(1).optional(),
+  sceneDescription: z.string().trim().min(1),
+  script: z.string().trim().min(1),
+  duration: z.number().positive().max(60).optional(),
+});
+
+export const analyzedSectionsSchema = z.array(analyzedSectionSchema).min(1, 'Expected at least one section');
+
+export type AnalyzedSection = z.infer<typeof analyzedSectionSchema>;
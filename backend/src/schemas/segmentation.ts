@@ -0,0 +1,23 @@
+import { z } from 'zod';
+
+// Validation for per-upload segmentation overrides. Multipart form fields arrive as
+// strings, so numbers are coerced and empty fields ignored.
+
+const count = (min: number, max: number) => z.preprocess(
+  value => (value === '' || value === null ? undefined : value),
+  z.coerce.number().int().min(min).max(max).optional()
+);
+
+export const segmentationOverridesSchema = z.object({
+  fixedSegmentCount: count(0, 100), // 0 = derive from story length
+  minSegments: count(1, 100),
+  maxSegments: count(1, 100),
+  wordsPerSegment: count(10, 5000),
+}).refine(
+  settings => settings.minSegments === undefined
+    || settings.maxSegments === undefined
+    || settings.minSegments <= settings.maxSegments,
+  { message: 'minSegments must not exceed maxSegments', path: ['minSegments'] }
+);
+
+export type SegmentationOverrides = z.infer<typeof segmentationOverridesSchema>;
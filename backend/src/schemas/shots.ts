@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+// Validation for section shot lists (see Shot in @/types). The strict variant checks
+// shot lists edited through the API; the generated variant checks the shot planning
+// prompt's output, where durations come from the clip plan instead of the model.
+
+export const SHOT_TYPES = ['establishing', 'wide', 'medium', 'close-up', 'over-the-shoulder', 'point-of-view'] as const;
+export const CAMERA_MOVES = ['static', 'pan', 'tilt', 'dolly-in', 'dolly-out', 'tracking', 'crane', 'handheld'] as const;
+
+const shotFields = z.object({
+  shotType: z.enum(SHOT_TYPES),
+  cameraMove: z.enum(CAMERA_MOVES),
+  characters: z.array(z.string().trim().min(1).max(100)),
+  action: z.string().trim().min(1).max(1000),
+});
+
+export const shotSchema = shotFields.extend({
+  duration: z.number().positive(),
+}).strict();
+
+export const shotListSchema = z.object({
+  shots: z.array(shotSchema).min(1, 'Expected at least one shot'),
+}).strict();
+
+export const generatedShotListSchema = z.array(shotFields).min(1, 'Expected at least one shot');
+
+export type GeneratedShot = z.infer<typeof shotFields>;
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { segmentationOverridesSchema } from './segmentation';
+import { storyStylePatchSchema } from './style';
+
+// Validation for stories created from JSON (POST /api/stories)
+
+const providedSectionSchema = z.object({
+  script: z.string().trim().min(1),
+  sceneDescription: z.string().trim().min(1).optional(),
+  duration: z.number().positive().max(60).optional(),
+}).strict();
+
+export const createStorySchema = z.object({
+  text: z.string().trim().min(1).optional(),
+  title: z.string().trim().min(1).max(200).optional(),
+  style: storyStylePatchSchema.optional(),
+  sections: z.array(providedSectionSchema).min(1).max(100).optional(),
+  segmentation: segmentationOverridesSchema.optional(),
+}).strict().refine(
+  body => body.text !== undefined || body.sections !== undefined,
+  { message: 'Provide the story text or its sections', path: ['text'] }
+);
+
+export type CreateStoryBody = z.infer<typeof createStorySchema>;
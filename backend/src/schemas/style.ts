@@ -0,0 +1,67 @@
+import { z } from 'zod';
+
+// Validation for StoryStyle (see @/types). The strict variants check style edits from
+// the API; the generated variant checks model output, where extra keys are dropped.
+
+const text = z.string().trim().min(1);
+
+const characterFields = z.object({
+  name: text.max(100),
+  description: text,
+  physicalTraits: text,
+});
+
+const settingFields = z.object({
+  location: text,
+  timeperiod: text,
+  atmosphere: text,
+});
+
+const visualStyleFields = z.object({
+  artStyle: text,
+  colorPalette: text,
+  cinematography: text,
+});
+
+export const characterSchema = characterFields.strict();
+export const settingSchema = settingFields.strict();
+export const visualStyleSchema = visualStyleFields.strict();
+
+export const storyStyleSchema = z.object({
+  characters: z.array(characterSchema),
+  setting: settingSchema,
+  visualStyle: visualStyleSchema,
+}).strict().refine(
+  style => new Set(style.characters.map(c => c.name.toLowerCase())).size === style.characters.length,
+  { message: 'Character names must be unique', path: ['characters'] }
+);
+
+export const generatedStyleSchema = z.object({
+  characters: z.array(characterFields),
+  setting: settingFields,
+  visualStyle: visualStyleFields,
+});
+
+/**
+ * Partial update: nested objects merge field by field, characters replace the whole list
+ */
+export const storyStylePatchSchema = z.object({
+  characters: z.array(characterSchema).optional(),
+  setting: settingSchema.partial().optional(),
+  visualStyle: visualStyleSchema.partial().optional(),
+}).strict();
+
+export type StoryStylePatch = z.infer<typeof storyStylePatchSchema>;
+export type StoryCharacter = z.infer<typeof characterSchema>;
+
+const voiceId = z.string().trim().regex(/^[A-Za-z0-9]{1,64}$/, 'Expected an ElevenLabs voice ID');
+
+/**
+ * Voice casting changes: characters are keyed by name; null hands a character back to automatic casting
+ */
+export const voiceCastingPatchSchema = z.object({
+  narrator: voiceId.optional(),
+  characters: z.record(voiceId.nullable()).optional(),
+}).strict();
+
+export type VoiceCastingPatch = z.infer<typeof voiceCastingPatchSchema>;
@@ -0,0 +1,211 @@
+import crypto from 'crypto';
+import { config } from '@/config';
+import { providers } from '@/providers';
+import { planSectionClips } from '@/utils/clipPlanning';
+import { voiceCasting } from './voiceCasting';
+import { SectionAsset, StoryData, StorySection, StoryStyle } from '@/types';
+
+export const SECTION_ASSETS: SectionAsset[] = ['audio', 'background', 'video', 'mix'];
+
+/**
+ * Serialize with sorted keys so equal inputs always hash the same
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Tracks which inputs produced each section asset, so edits to a script, the
+ * style or provider settings show up as stale assets that need regenerating.
+ */
+export class AssetTrackerService {
+  /**
+   * Everything that goes into generating an asset
+   */
+  getInputs(story: StoryData, section: StorySection, asset: SectionAsset): Record<string, unknown> {
+    switch (asset) {
+      case 'audio': {
+        const characterVoices = voiceCasting.getSectionCharacterVoices(story, section);
+        return {
+          text: section.script,
+          provider: config.providers.speech,
+          model: providers.speech.name,
+          voiceId: voiceCasting.resolve(story).narrator,
+          characterVoices: Object.keys(characterVoices).length > 0 ? characterVoices : undefined,
+          narration: config.narration.adapt
+            ? { audience: config.narration.audience, model: providers.text.name }
+            : undefined,
+        };
+      }
+      case 'background':
+        return {
+          sceneDescription: section.sceneDescription,
+          script: section.script,
+          style: story.styleInfo,
+          promptModel: providers.text.name,
+          provider: config.providers.image,
+          model: providers.image.name,
+        };
+      case 'video':
+        return {
+          sceneDescription: section.sceneDescription,
+          script: section.script,
+          // A shot list sets its own clip lengths
+          clips: section.shots?.length ? undefined : planSectionClips(section),
+          shots: section.shots?.length ? section.shots : undefined,
+          style: story.styleInfo,
+          promptModel: providers.text.name,
+          provider: config.providers.video,
+          model: providers.video.name,
+        };
+      case 'mix':
+        return {
+          audio: section.assets?.audio?.generatedAt,
+          video: section.assets?.video?.generatedAt,
+          atmosphere: story.styleInfo?.setting.atmosphere,
+          loudnessLufs: config.audioMix.loudnessLufs,
+          musicVolumeDb: config.audioMix.musicVolumeDb,
+          sfxVolumeDb: config.audioMix.sfxVolumeDb,
+          fitMode: config.movie.fitMode,
+        };
+    }
+  }
+
+  hashInputs(story: StoryData, section: StorySection, asset: SectionAsset): string {
+    return this.hash(this.getInputs(story, section, asset));
+  }
+
+  /**
+   * Record the inputs of a freshly generated asset
+   */
+  record(story: StoryData, section: StorySection, asset: SectionAsset): void {
+    section.assets = {
+      ...section.assets,
+      [asset]: { hash: this.hashInputs(story, section, asset), generatedAt: new Date().toISOString() },
+    };
+    this.refresh(story, section);
+  }
+
+  /**
+   * Record current inputs for assets generated before hashes were tracked.
+   * Call before editing inputs, so the edit is detected as a change.
+   */
+  adoptBaseline(story: StoryData, section: StorySection): void {
+    for (const asset of SECTION_ASSETS) {
+      if (this.getAssetPath(section, asset) && !section.assets?.[asset]) {
+        section.assets = {
+          ...section.assets,
+          [asset]: { hash: this.hashInputs(story, section, asset), generatedAt: new Date().toISOString() },
+        };
+      }
+    }
+  }
+
+  /**
+   * Existing assets whose recorded inputs differ from the current ones.
+   * Assets without a record are assumed current.
+   */
+  getStaleAssets(story: StoryData, section: StorySection): SectionAsset[] {
+    return SECTION_ASSETS.filter(asset => {
+      const record = section.assets?.[asset];
+      return this.getAssetPath(section, asset) && record && record.hash !== this.hashInputs(story, section, asset);
+    });
+  }
+
+  /**
+   * Update the section's staleAssets list from its hashes
+   */
+  refresh(story: StoryData, section: StorySection): void {
+    const stale = this.getStaleAssets(story, section);
+    if (stale.length > 0) {
+      section.staleAssets = stale;
+    } else {
+      delete section.staleAssets;
+    }
+  }
+
+  /**
+   * Assets a rebuild should (re)generate: stale ones, plus narration and background
+   * images that were never made. Videos and mixes are only rebuilt where one already exists.
+   */
+  getRebuildPlan(story: StoryData, section: StorySection): SectionAsset[] {
+    const stale = this.getStaleAssets(story, section);
+    return SECTION_ASSETS.filter(asset =>
+      stale.includes(asset) || ((asset === 'audio' || asset === 'background') && !this.getAssetPath(section, asset))
+    );
+  }
+
+  /**
+   * The story-level reference image depends only on the style
+   */
+  hashReferenceInputs(story: StoryData): string {
+    return this.hash({ style: story.styleInfo, provider: config.providers.image, model: providers.image.name });
+  }
+
+  recordReferenceImage(story: StoryData): void {
+    story.referenceImageHash = this.hashReferenceInputs(story);
+  }
+
+  hashPortraitInputs(story: StoryData, character: StoryStyle['characters'][number]): string {
+    return this.hash({
+      character,
+      visualStyle: story.styleInfo?.visualStyle,
+      provider: config.providers.image,
+      model: providers.image.name,
+    });
+  }
+
+  /**
+   * Characters whose portrait is missing or was drawn from different inputs.
+   * Empty for stories that never had portraits generated.
+   */
+  getStalePortraits(story: StoryData): string[] {
+    if (!story.characterPortraits) return [];
+    return (story.styleInfo?.characters ?? [])
+      .filter(character => {
+        const portrait = story.characterPortraits!.find(p => p.name === character.name);
+        return !portrait || portrait.hash !== this.hashPortraitInputs(story, character);
+      })
+      .map(character => character.name);
+  }
+
+  adoptReferenceBaseline(story: StoryData): void {
+    if (story.referenceImagePath && !story.referenceImageHash) {
+      this.recordReferenceImage(story);
+    }
+  }
+
+  isReferenceImageStale(story: StoryData): boolean {
+    return !!story.referenceImagePath
+      && !!story.referenceImageHash
+      && story.referenceImageHash !== this.hashReferenceInputs(story);
+  }
+
+  private hash(inputs: Record<string, unknown>): string {
+    return crypto.createHash('sha256').update(stableStringify(inputs)).digest('hex').substring(0, 16);
+  }
+
+  private getAssetPath(section: StorySection, asset: SectionAsset): string | undefined {
+    switch (asset) {
+      case 'audio':
+        return section.audioPath;
+      case 'background':
+        return section.backgroundImagePath;
+      case 'video':
+        return section.videoPath;
+      case 'mix':
+        return section.mixedAudioPath;
+    }
+  }
+}
+
+export const assetTracker = new AssetTrackerService();
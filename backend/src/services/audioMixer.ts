@@ -0,0 +1,121 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '@/config';
+import { fileStorage } from '@/utils/fileStorage';
+import { hasAudioStream, probeDuration, runFfmpeg } from '@/utils/ffmpeg';
+import { MUSIC_EXTENSIONS, selectMusicTrack } from '@/utils/musicSelection';
+import { StoryData, StorySection } from '@/types';
+import { captionService } from './captionService';
+
+const MIX_FORMAT = 'aformat=sample_rates=44100:channel_layouts=stereo';
+
+/**
+ * Post-processing of section narration (requires ffmpeg): loudness normalized to
+ * EBU R128 so every section sits at the same level, a music bed picked from the
+ * story's atmosphere and ducked under the voice, and the video clip's sound effects
+ * blended underneath. The mixed track replaces the raw narration for playback and export.
+ */
+export class AudioMixerService {
+  /**
+   * Music tracks in the library folder, by file name
+   */
+  async listMusicTracks(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(config.audioMix.musicDir);
+      return files.filter(file => MUSIC_EXTENSIONS.includes(path.extname(file).toLowerCase()));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * The music bed for a story's atmosphere, or null when nothing in the library fits
+   */
+  async chooseMusicTrack(story: StoryData): Promise<string | null> {
+    return selectMusicTrack(story.styleInfo?.setting.atmosphere ?? '', await this.listMusicTracks());
+  }
+
+  /**
+   * Audio to play for a section: the mixed track when there is one, else the raw narration
+   */
+  getPlaybackAudio(section: StorySection): string | undefined {
+    return config.audioMix.enabled && section.mixedAudioPath ? section.mixedAudioPath : section.audioPath;
+  }
+
+  /**
+   * Mix a section's narration with music and its video's sound effects.
+   * Returns the mixed track's path, or null when the section has no narration.
+   * Sets story.musicTrack to the music used.
+   */
+  async mixSection(story: StoryData, section: StorySection): Promise<string | null> {
+    if (!section.audioPath || !await fileStorage.fileExists(section.audioPath)) {
+      return null;
+    }
+
+    const storyName = story.storyName || fileStorage.sanitizeStoryName(story.originalFilename);
+    const sectionName = fileStorage.sanitizeSectionName(section.sectionName);
+    const outputPath = fileStorage.getMixedAudioPath(storyName, sectionName);
+    const { loudnessLufs, musicVolumeDb, sfxVolumeDb } = config.audioMix;
+
+    const args = ['-i', section.audioPath];
+    const filters = [
+      `[0:a]loudnorm=I=${loudnessLufs}:TP=-1.5:LRA=11,${MIX_FORMAT},asplit=2[voice][key]`,
+    ];
+    const layers = ['[voice]'];
+
+    if (section.videoPath && await fileStorage.fileExists(section.videoPath) && await hasAudioStream(section.videoPath)) {
+      // Loop the effects along with the picture, as the movie does in loop mode
+      if (config.movie.fitMode === 'loop') args.push('-stream_loop', '-1');
+      args.push('-i', section.videoPath);
+      filters.push(`[1:a]${MIX_FORMAT},volume=${sfxVolumeDb}dB[sfx]`);
+      layers.push('[sfx]');
+    }
+
+    const track = await this.chooseMusicTrack(story);
+    if (track) {
+      const trackPath = path.join(config.audioMix.musicDir, track);
+      const offset = await this.getMusicOffset(story, section, trackPath);
+      args.push('-stream_loop', '-1', '-ss', offset.toFixed(3), '-i', trackPath);
+      filters.push(
+        `[${layers.length}:a]${MIX_FORMAT},volume=${musicVolumeDb}dB[bed]`,
+        '[bed][key]sidechaincompress=threshold=0.02:ratio=6:attack=50:release=600[music]'
+      );
+      layers.push('[music]');
+    } else {
+      filters.push('[key]anullsink');
+    }
+
+    // The narration (first input) sets the length
+    filters.push(`${layers.join('')}amix=inputs=${layers.length}:duration=first:dropout_transition=0:normalize=0,alimiter=limit=0.95[out]`);
+
+    await fileStorage.ensureStoryDirectories(storyName, sectionName);
+    await runFfmpeg([
+      ...args,
+      '-filter_complex', filters.join(';'),
+      '-map', '[out]',
+      '-c:a', 'libmp3lame', '-b:a', '192k', '-ar', '44100',
+      outputPath,
+    ]);
+
+    story.musicTrack = track ?? undefined;
+    console.log(`🎚️  Mixed audio for ${section.sectionName}${track ? ` with ${track}` : ''}`);
+    return outputPath;
+  }
+
+  /**
+   * Where in the music the section starts, so the bed plays on across sections
+   * the way they follow each other in the movie
+   */
+  private async getMusicOffset(story: StoryData, section: StorySection, trackPath: string): Promise<number> {
+    let offset = 0;
+    for (const previous of story.sections) {
+      if (previous.id === section.id) break;
+      offset += await captionService.getNarrationDuration(previous) + config.movie.transitionSeconds;
+    }
+
+    const trackDuration = await probeDuration(trackPath);
+    return trackDuration > 0 ? offset % trackDuration : 0;
+  }
+}
+
+export const audioMixer = new AudioMixerService();
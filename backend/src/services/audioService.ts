@@ -1,36 +1,45 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { config } from '@/config';
+import fs from 'fs/promises';
+import path from 'path';
+import { providers } from '@/providers';
 import { fileStorage } from '@/utils/fileStorage';
-import { StorySection } from '@/types';
-import fetch from 'node-fetch';
+import { getMp3Duration, stripMp3Headers } from '@/utils/audioDuration';
+import { concatMedia } from '@/utils/ffmpeg';
+import { stripAlignmentMarkup, toSpeechText } from '@/utils/narrationMarkup';
+import { VoicePart } from './voiceCasting';
+import { SpeechAlignment, StorySection } from '@/types';
 
 export class AudioService {
-  private genAI: GoogleGenerativeAI;
-
-  constructor() {
-    this.genAI = new GoogleGenerativeAI(config.google.apiKey);
-  }
-
   /**
-   * Generate audio for a section using ElevenLabs
+   * Generate audio for a section using the configured speech provider. Each voice
+   * part of the narration is synthesized on its own and the MP3s are joined into the
+   * section's audio file.
    */
   async generateAudio(
     section: StorySection, 
-    storyName: string
+    storyName: string,
+    parts: VoicePart[]
   ): Promise<string> {
     try {
       const sectionName = fileStorage.sanitizeSectionName(section.sectionName);
       
-      console.log(`🎵 Generating audio for section: ${section.sectionName}`);
-      
-      // Use the regular script directly (no narration script generation)
-      const scriptText = section.script;
+      console.log(`🎵 Generating audio for section: ${section.sectionName} (${parts.length} ${parts.length === 1 ? 'part' : 'parts'})`);
+      console.log(`Narration text: ${parts.map(part => part.text).join('').substring(0, 100)}...`);
       
-      console.log(`Script text: ${scriptText.substring(0, 100)}...`);
-      
-      // Generate audio using ElevenLabs API
-      const audioBuffer = await this.callElevenLabsAPI(scriptText);
-      const audioPath = await fileStorage.saveAudio(storyName, sectionName, audioBuffer);
+      const takes = [];
+      for (const part of parts) {
+        takes.push(await this.synthesize(toSpeechText(part.text), part.voiceId));
+      }
+
+      const audio = await this.joinTakes(takes.map(take => take.audio), storyName, sectionName);
+      const alignment = this.joinAlignments(takes);
+      const audioPath = await fileStorage.saveAudio(storyName, sectionName, audio);
+
+      // Character timestamps drive caption timing; drop any left over from a previous take
+      if (alignment) {
+        await fileStorage.saveAlignment(storyName, sectionName, alignment);
+      } else {
+        await fs.rm(fileStorage.getAlignmentPath(storyName, sectionName), { force: true });
+      }
       
       console.log(`✓ Audio generated: ${audioPath}`);
       return audioPath;
@@ -40,39 +49,70 @@ export class AudioService {
     }
   }
 
-
   /**
-   * Call ElevenLabs API to generate speech
+   * Join the voice parts' MP3s into one file with ffmpeg, which writes a single header
+   * for the whole track. Without ffmpeg the parts' own headers are stripped and their
+   * frames joined as they are.
    */
-  private async callElevenLabsAPI(scriptText: string): Promise<Buffer> {
-    try {
-      const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${config.elevenlabs.voiceId}`, {
-        method: 'POST',
-        headers: {
-          'Accept': 'audio/mpeg',
-          'Content-Type': 'application/json',
-          'xi-api-key': config.elevenlabs.apiKey
-        },
-        body: JSON.stringify({
-          text: scriptText,
-          model_id: "eleven_monolingual_v1", // Use cheaper model
-          voice_settings: {
-            stability: 0.5,
-            similarity_boost: 0.5
-          }
-        })
-      });
+  private async joinTakes(takes: Buffer[], storyName: string, sectionName: string): Promise<Buffer> {
+    if (takes.length === 1) return takes[0];
 
-      if (!response.ok) {
-        throw new Error(`ElevenLabs API error: ${response.status} ${response.statusText}`);
+    const takesDir = path.join(fileStorage.getSectionDirectory(storyName, sectionName), 'takes');
+    try {
+      await fs.mkdir(takesDir, { recursive: true });
+      const takePaths: string[] = [];
+      for (const [index, take] of takes.entries()) {
+        const takePath = path.join(takesDir, `take_${index + 1}.mp3`);
+        await fs.writeFile(takePath, take);
+        takePaths.push(takePath);
       }
 
-      const audioBuffer = Buffer.from(await response.arrayBuffer());
-      return audioBuffer;
+      const joinedPath = path.join(takesDir, 'joined.mp3');
+      await concatMedia(takePaths, joinedPath);
+      return await fs.readFile(joinedPath);
     } catch (error) {
-      console.error('ElevenLabs API error:', error);
-      throw new Error('Failed to generate audio with ElevenLabs');
+      console.warn('⚠️  Could not join voice parts with ffmpeg, joining their audio frames:', error instanceof Error ? error.message : error);
+      return Buffer.concat(takes.map(stripMp3Headers));
+    } finally {
+      await fs.rm(takesDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * One alignment for the joined audio, shifting each part by the length of the
+   * audio before it. Missing if any part has no timestamps.
+   */
+  private joinAlignments(takes: Array<{ audio: Buffer; alignment?: SpeechAlignment }>): SpeechAlignment | undefined {
+    if (takes.length === 0 || takes.some(take => !take.alignment)) return undefined;
+
+    const joined: SpeechAlignment = { characters: [], characterStartTimesSeconds: [], characterEndTimesSeconds: [] };
+    let offset = 0;
+    for (const take of takes) {
+      // Captions only show what was spoken, not pause tags
+      const alignment = stripAlignmentMarkup(take.alignment!);
+      joined.characters.push(...alignment.characters);
+      joined.characterStartTimesSeconds.push(...alignment.characterStartTimesSeconds.map(t => t + offset));
+      joined.characterEndTimesSeconds.push(...alignment.characterEndTimesSeconds.map(t => t + offset));
+      offset += getMp3Duration(stripMp3Headers(take.audio));
     }
+    return joined;
+  }
+
+  /**
+   * Synthesize speech, asking for character timestamps when the provider supports them
+   */
+  private async synthesize(text: string, voiceId: string): Promise<{ audio: Buffer; alignment?: SpeechAlignment }> {
+    const speech = providers.speech;
+
+    if (speech.synthesizeWithTimestamps) {
+      try {
+        return await speech.synthesizeWithTimestamps(text, { voiceId });
+      } catch (error) {
+        console.warn('⚠️  Timestamped synthesis failed, captions will be estimated:', error);
+      }
+    }
+
+    return { audio: await speech.synthesize(text, { voiceId }) };
   }
 }
 
@@ -1,29 +1,18 @@
 // backend/src/services/backgroundImageService.ts
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { config } from '@/config';
+import { providers } from '@/providers';
 import { fileStorage } from '@/utils/fileStorage';
 import { StorySection, StoryStyle } from '@/types';
-import fetch from 'node-fetch';
-import fs from 'fs/promises';
 
 export class BackgroundImageService {
-  private genAI: GoogleGenerativeAI;
-
-  constructor() {
-    this.genAI = new GoogleGenerativeAI(config.google.apiKey);
-  }
-
   /**
-   * Generate background image for a section, given the full story and section script
+   * Generate background image for a section from its scene, script and the story style.
+   * The style context stands in for the full story text so prompt size doesn't grow with it.
    */
   async generateBackgroundImageForSection(
-    storyText: string,
     section: StorySection,
     storyName: string,
     styleInfo: StoryStyle
   ): Promise<string> {
-    const model = this.genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
-
     // Build style context
     const styleContext = this.buildStyleContext(styleInfo);
     
@@ -36,9 +25,6 @@ You are a children's story background image generator. Your task is to create a
 - Ensure the center of the image has good contrast for white or black text
 - Match the visual style and atmosphere of the story
 
-STORY CONTEXT (for overall theme and style):
-${storyText}
-
 STYLE CONTEXT:
 ${styleContext}
 
@@ -50,44 +36,22 @@ Return ONLY the image generation prompt, no additional text.
 `;
 
     try {
-      const result = await model.generateContent(prompt);
-      const backgroundImagePrompt = (result as any).response?.text?.().trim?.() || String(result?.response || '');
+      const backgroundImagePrompt = await providers.text.generateText(prompt, {
+        task: 'prompt',
+        source: section.sceneDescription,
+      });
 
       const sectionName = fileStorage.sanitizeSectionName(section.sectionName);
       const backgroundImagePath = fileStorage.getBackgroundImagePath(storyName, sectionName);
 
-      // If Stability API key is available, attempt generation and save image
-      const stabilityApiKey = process.env.STABILITY_API_KEY || (config as any).stability?.apiKey;
-      if (stabilityApiKey) {
-        const response = await fetch('https://api.stability.ai/v1/generation/stable-diffusion-xl-1024-v1-0/text-to-image', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${stabilityApiKey}`,
-            'Content-Type': 'application/json',
-            'Accept': 'application/json'
-          },
-          body: JSON.stringify({
-            text_prompts: [{ text: backgroundImagePrompt }],
-            cfg_scale: 7,
-            height: 768,
-            width: 1344,
-            samples: 1,
-            steps: 30
-          })
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.warn('Stability API error:', errorText);
-        } else {
-          const data = (await response.json()) as any;
-          const base64Image = data?.artifacts?.[0]?.base64;
-          if (base64Image) {
-            await fs.writeFile(backgroundImagePath, Buffer.from(base64Image, 'base64'));
-            console.log(`✓ Background image generated and saved: ${backgroundImagePath}`);
-            return backgroundImagePath;
-          }
-        }
+      // Attempt generation with the image provider and save the image
+      try {
+        const image = await providers.image.generateImage(backgroundImagePrompt, { width: 1344, height: 768 });
+        await fileStorage.saveBackgroundImage(storyName, sectionName, image);
+        console.log(`✓ Background image generated and saved: ${backgroundImagePath}`);
+        return backgroundImagePath;
+      } catch (error) {
+        console.warn('Image provider error:', error instanceof Error ? error.message : error);
       }
 
       // Fallback: log prompt and return expected path (file may not exist if generation skipped)
@@ -0,0 +1,239 @@
+import fs from 'fs/promises';
+import { config } from '@/config';
+import { fileStorage } from '@/utils/fileStorage';
+import { getMp3FileDuration } from '@/utils/audioDuration';
+import { estimateNarrationSeconds } from '@/utils/clipPlanning';
+import { CaptionCue, CaptionFormat, SpeechAlignment, StoryData, StorySection } from '@/types';
+
+// Readability limits for a single caption (two lines of ~42 characters)
+const MAX_LINE_CHARS = 42;
+const MAX_CUE_CHARS = MAX_LINE_CHARS * 2;
+const MAX_CUE_SECONDS = 6;
+const SENTENCE_END = /[.!?]["')\]]*$/;
+const CLAUSE_END = /[,;:]["')\]]*$/;
+
+interface TimedWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface SectionCaptions {
+  cues: CaptionCue[];
+  duration: number; // Narration length in seconds
+}
+
+/**
+ * Format seconds as HH:MM:SS with a millisecond separator ("," for SRT, "." for WebVTT)
+ */
+function formatTimestamp(seconds: number, separator: string): string {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+/**
+ * Break caption text into at most two balanced lines
+ */
+function wrapLines(text: string): string {
+  if (text.length <= MAX_LINE_CHARS) return text;
+
+  const words = text.split(' ');
+  let best = text;
+  let bestDiff = Infinity;
+  for (let i = 1; i < words.length; i++) {
+    const first = words.slice(0, i).join(' ');
+    const second = words.slice(i).join(' ');
+    const diff = Math.abs(first.length - second.length);
+    if (diff < bestDiff) {
+      bestDiff = diff;
+      best = `${first}\n${second}`;
+    }
+  }
+  return best;
+}
+
+export class CaptionService {
+  /**
+   * Timed captions for one section. Uses the speech provider's character timestamps
+   * when they were saved with the audio, otherwise spreads the words over the narration.
+   */
+  async buildSectionCaptions(story: StoryData, section: StorySection): Promise<SectionCaptions> {
+    const storyName = story.storyName || fileStorage.sanitizeStoryName(story.originalFilename);
+    const sectionName = fileStorage.sanitizeSectionName(section.sectionName);
+
+    const duration = await this.getNarrationDuration(section);
+    const alignment = section.audioPath ? await fileStorage.loadAlignment(storyName, sectionName) : null;
+
+    const words = alignment
+      ? this.wordsFromAlignment(alignment)
+      : this.estimateWords(section.script, duration);
+
+    return { cues: this.groupIntoCues(words), duration };
+  }
+
+  /**
+   * Captions for the whole story, laid out the way the final movie is:
+   * each section's narration followed by the transition gap
+   */
+  async buildStoryCaptions(story: StoryData): Promise<CaptionCue[]> {
+    const cues: CaptionCue[] = [];
+    let offset = 0;
+
+    for (const section of story.sections) {
+      const captions = await this.buildSectionCaptions(story, section);
+      for (const cue of captions.cues) {
+        cues.push({ start: cue.start + offset, end: cue.end + offset, text: cue.text });
+      }
+      offset += captions.duration + config.movie.transitionSeconds;
+    }
+
+    return cues;
+  }
+
+  /**
+   * Length of a section's narration, falling back to its stored or estimated duration when there is no audio
+   */
+  async getNarrationDuration(section: StorySection): Promise<number> {
+    if (section.audioPath && await fileStorage.fileExists(section.audioPath)) {
+      const duration = await getMp3FileDuration(section.audioPath);
+      if (duration > 0) return duration;
+    }
+    return section.duration || estimateNarrationSeconds(section.script);
+  }
+
+  /**
+   * Write .vtt and .srt files for every section and for the whole story
+   */
+  async writeCaptions(story: StoryData): Promise<void> {
+    const storyName = story.storyName || fileStorage.sanitizeStoryName(story.originalFilename);
+
+    for (const section of story.sections) {
+      const sectionName = fileStorage.sanitizeSectionName(section.sectionName);
+      const { cues } = await this.buildSectionCaptions(story, section);
+      await fileStorage.ensureStoryDirectories(storyName, sectionName);
+      for (const format of ['vtt', 'srt'] as const) {
+        await fs.writeFile(fileStorage.getSectionCaptionsPath(storyName, sectionName, format), this.format(cues, format), 'utf-8');
+      }
+    }
+
+    const storyCues = await this.buildStoryCaptions(story);
+    await fileStorage.ensureStoryDirectories(storyName);
+    for (const format of ['vtt', 'srt'] as const) {
+      await fs.writeFile(fileStorage.getStoryCaptionsPath(storyName, format), this.format(storyCues, format), 'utf-8');
+    }
+
+    console.log(`✓ Captions written for ${story.sections.length} sections`);
+  }
+
+  /**
+   * Render cues as a WebVTT or SRT document
+   */
+  format(cues: CaptionCue[], format: CaptionFormat): string {
+    const separator = format === 'vtt' ? '.' : ',';
+    const body = cues
+      .map((cue, index) => {
+        const timing = `${formatTimestamp(cue.start, separator)} --> ${formatTimestamp(cue.end, separator)}`;
+        return `${index + 1}\n${timing}\n${wrapLines(cue.text)}\n`;
+      })
+      .join('\n');
+
+    return format === 'vtt' ? `WEBVTT\n\n${body}` : body;
+  }
+
+  contentType(format: CaptionFormat): string {
+    return format === 'vtt' ? 'text/vtt; charset=utf-8' : 'application/x-subrip; charset=utf-8';
+  }
+
+  /**
+   * Join timed characters into words
+   */
+  private wordsFromAlignment(alignment: SpeechAlignment): TimedWord[] {
+    const words: TimedWord[] = [];
+    let current: TimedWord | null = null;
+
+    alignment.characters.forEach((char, i) => {
+      if (/\s/.test(char)) {
+        current = null;
+        return;
+      }
+
+      const start = alignment.characterStartTimesSeconds[i];
+      const end = alignment.characterEndTimesSeconds[i];
+      if (current) {
+        current.text += char;
+        current.end = end;
+      } else {
+        current = { text: char, start, end };
+        words.push(current);
+      }
+    });
+
+    return words;
+  }
+
+  /**
+   * Spread words over the narration in proportion to their length,
+   * with a little extra time for the pause after punctuation
+   */
+  private estimateWords(script: string, duration: number): TimedWord[] {
+    const tokens = script.split(/\s+/).filter(Boolean);
+    const weights = tokens.map(word =>
+      word.length + (SENTENCE_END.test(word) ? 4 : CLAUSE_END.test(word) ? 2 : 0)
+    );
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    if (totalWeight === 0) return [];
+
+    const words: TimedWord[] = [];
+    let start = 0;
+    tokens.forEach((text, i) => {
+      const end = start + (weights[i] / totalWeight) * duration;
+      words.push({ text, start, end });
+      start = end;
+    });
+    return words;
+  }
+
+  /**
+   * Group words into cues, breaking at sentence ends and readability limits
+   */
+  private groupIntoCues(words: TimedWord[]): CaptionCue[] {
+    const cues: CaptionCue[] = [];
+    let pending: TimedWord[] = [];
+
+    const flush = (count = pending.length) => {
+      if (count === 0) return;
+      const taken = pending.slice(0, count);
+      cues.push({
+        start: taken[0].start,
+        end: taken[taken.length - 1].end,
+        text: taken.map(word => word.text).join(' '),
+      });
+      pending = pending.slice(count);
+    };
+
+    for (const word of words) {
+      if (pending.length > 0) {
+        const text = pending.map(w => w.text).join(' ');
+        const tooLong = text.length + 1 + word.text.length > MAX_CUE_CHARS;
+        const tooSlow = word.end - pending[0].start > MAX_CUE_SECONDS;
+        if (tooLong || tooSlow) {
+          // Prefer breaking after a comma or semicolon over mid-clause
+          const clauseBreak = pending.map(w => CLAUSE_END.test(w.text)).lastIndexOf(true);
+          flush(clauseBreak >= 0 ? clauseBreak + 1 : pending.length);
+        }
+      }
+
+      pending.push(word);
+      if (SENTENCE_END.test(word.text)) flush();
+    }
+    flush();
+
+    return cues;
+  }
+}
+
+export const captionService = new CaptionService();
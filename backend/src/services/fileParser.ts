@@ -1,18 +1,57 @@
 import fs from 'fs/promises';
+import path from 'path';
 import pdf from 'pdf-parse';
+import { MAX_STORY_CHARS, docxToText, epubToText, htmlToText, markdownToText, rtfToText } from '@/utils/documentText';
+import { StoryFileFormat } from '@/types';
+
+// Extensions and MIME types accepted for each format. Extensions win, since
+// browsers often send a generic type for .md and .epub files.
+const FORMATS: Record<StoryFileFormat, { extensions: string[]; mimeTypes: string[] }> = {
+  txt: { extensions: ['.txt'], mimeTypes: ['text/plain'] },
+  pdf: { extensions: ['.pdf'], mimeTypes: ['application/pdf'] },
+  docx: {
+    extensions: ['.docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  },
+  epub: { extensions: ['.epub'], mimeTypes: ['application/epub+zip'] },
+  md: { extensions: ['.md', '.markdown'], mimeTypes: ['text/markdown', 'text/x-markdown'] },
+  html: { extensions: ['.html', '.htm', '.xhtml'], mimeTypes: ['text/html', 'application/xhtml+xml'] },
+  rtf: { extensions: ['.rtf'], mimeTypes: ['application/rtf', 'text/rtf'] },
+};
 
 export class FileParserService {
   /**
-   * Parse uploaded file and extract text content
+   * Story format of an upload from its file name and MIME type, or null if unsupported
+   */
+  detectFormat(filename: string, mimeType: string): StoryFileFormat | null {
+    const extension = path.extname(filename).toLowerCase();
+    const entries = Object.entries(FORMATS) as Array<[StoryFileFormat, typeof FORMATS[StoryFileFormat]]>;
+    return entries.find(([, format]) => format.extensions.includes(extension))?.[0]
+      ?? entries.find(([, format]) => format.mimeTypes.includes(mimeType))?.[0]
+      ?? null;
+  }
+
+  /**
+   * Parse uploaded file and extract text content. Headings in structured formats
+   * are kept as "# Heading" lines.
    */
-  async parseFile(filePath: string, mimeType: string): Promise<string> {
+  async parseFile(filePath: string, format: StoryFileFormat): Promise<string> {
     try {
-      if (mimeType === 'text/plain') {
-        return await this.parseTxtFile(filePath);
-      } else if (mimeType === 'application/pdf') {
-        return await this.parsePdfFile(filePath);
-      } else {
-        throw new Error(`Unsupported file type: ${mimeType}`);
+      switch (format) {
+        case 'txt':
+          return await this.parseTxtFile(filePath);
+        case 'pdf':
+          return await this.parsePdfFile(filePath);
+        case 'docx':
+          return docxToText(await fs.readFile(filePath));
+        case 'epub':
+          return epubToText(await fs.readFile(filePath));
+        case 'md':
+          return markdownToText(await fs.readFile(filePath, 'utf-8'));
+        case 'html':
+          return htmlToText(await fs.readFile(filePath, 'utf-8'));
+        case 'rtf':
+          return rtfToText(await fs.readFile(filePath, 'latin1'));
       }
     } catch (error) {
       console.error('Error parsing file:', error);
@@ -49,7 +88,7 @@ export class FileParserService {
       return false;
     }
 
-    if (content.length > 100000) {
+    if (content.length > MAX_STORY_CHARS) {
       return false;
     }
 
@@ -1,29 +1,34 @@
 import { GoogleGenAI } from '@google/genai';
 import { config } from '@/config';
 import { GeminiVeoRequest, GeminiVeoResponse } from '@/types';
-import { fileStorage } from '@/utils/fileStorage';
 import path from 'path';
 import fs from 'fs/promises';
 
 export class GeminiVeoService {
-  private ai: any;
+  private client?: GoogleGenAI;
 
-  constructor() {
-    this.ai = new GoogleGenAI({
-      apiKey: config.google.apiKey,
-    });
+  /**
+   * Create the client on first use so the server can boot without a Google API key
+   * when Veo isn't the selected video provider
+   */
+  private get ai(): GoogleGenAI {
+    if (!this.client) {
+      this.client = new GoogleGenAI({
+        apiKey: config.google.apiKey,
+      });
+    }
+    return this.client;
   }
 
   /**
-   * Generate video using Gemini Veo 3
+   * Generate video using Gemini Veo 3 and download it to outputPath
    */
   async generateVideo(
     request: GeminiVeoRequest,
-    storyId: string,
-    segmentId: number
+    outputPath: string
   ): Promise<GeminiVeoResponse> {
     try {
-      console.log(`\n🎬 Starting Veo 3 video generation for segment ${segmentId}...`);
+      console.log(`\n🎬 Starting Veo 3 video generation: ${path.basename(path.dirname(outputPath))}...`);
       console.log(`Model: ${request.model || 'veo-3.0-generate-001'}`);
       console.log(`Prompt: ${request.prompt.substring(0, 100)}...`);
 
@@ -94,25 +99,25 @@ export class GeminiVeoService {
 
       // Download the generated video
       const videoFile = operation.response.generatedVideos[0].video;
-      const videoPath = fileStorage.getVideoPathLegacy(storyId, Number(segmentId));
+      if (!videoFile) {
+        throw new Error('Video generation completed but no video file was returned');
+      }
       
       // Ensure directory exists
-      const dir = path.dirname(videoPath);
-      await fs.mkdir(dir, { recursive: true });
+      await fs.mkdir(path.dirname(outputPath), { recursive: true });
       
-      console.log(`💾 Downloading video to: ${videoPath}`);
+      console.log(`💾 Downloading video to: ${outputPath}`);
       
       await this.ai.files.download({
         file: videoFile,
-        downloadPath: videoPath,
+        downloadPath: outputPath,
       });
 
       console.log('✅ Video downloaded successfully!');
 
       return {
         success: true,
-        videoPath: videoPath,
-        videoUrl: `/api/videos/${storyId}/${segmentId}`,
+        videoPath: outputPath,
       };
 
     } catch (error) {
@@ -129,8 +134,7 @@ export class GeminiVeoService {
    */
   async generateVideoWithRetry(
     request: GeminiVeoRequest,
-    storyId: string,
-    segmentId: number,
+    outputPath: string,
     maxRetries: number = 3
   ): Promise<GeminiVeoResponse> {
     let lastError: string = '';
@@ -138,7 +142,7 @@ export class GeminiVeoService {
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       console.log(`\n🔄 Attempt ${attempt} of ${maxRetries}...`);
       
-      const result = await this.generateVideo(request, storyId, segmentId);
+      const result = await this.generateVideo(request, outputPath);
       
       if (result.success) {
         return result;
@@ -165,7 +169,7 @@ export class GeminiVeoService {
   async checkAvailability(): Promise<boolean> {
     try {
       // Simple test to verify the API is configured correctly
-      return !!this.ai && !!config.google.apiKey;
+      return !!config.google.apiKey && !!this.ai;
     } catch (error) {
       console.error('Veo 3 not available:', error);
       return false;
@@ -1,21 +1,13 @@
-import { GoogleGenAI } from '@google/genai';
 import { config } from '@/config';
+import { providers } from '@/providers';
+import { fileStorage } from '@/utils/fileStorage';
 import { StoryStyle } from '@/types';
 import fs from 'fs/promises';
 import path from 'path';
 
 export class ImageGeneratorService {
-  private ai: any;
-
-  constructor() {
-    this.ai = new GoogleGenAI({
-      apiKey: config.google.apiKey,
-    });
-  }
-
   /**
-   * Generate a reference image for style consistency using Imagen
-   * NOTE: Requires Vertex AI setup - see https://cloud.google.com/vertex-ai/docs/generative-ai/image/overview
+   * Generate a reference image for style consistency using the configured image provider
    */
   async generateReferenceImage(
     styleInfo: StoryStyle,
@@ -27,53 +19,55 @@ export class ImageGeneratorService {
     const prompt = this.buildReferenceImagePrompt(styleInfo);
     console.log(`Image prompt: ${prompt.substring(0, 150)}...`);
 
-    // Try to generate with Imagen (requires Vertex AI)
     try {
-      const result = await this.ai.models.generateImages({
-        model: 'imagen-3.0-generate-001',
-        prompt: prompt,
-        numberOfImages: 1,
-        aspectRatio: '16:9',
-      });
-
+      const image = await providers.image.generateImage(prompt, { width: 1344, height: 768 });
       console.log('✓ Image generation completed');
-      const generatedImage = result.generatedImages[0];
-      
+
       const imagePath = path.join(config.storage.imagesDir, storyId, 'reference.png');
-      const imageDir = path.dirname(imagePath);
-      await fs.mkdir(imageDir, { recursive: true });
-      
-      await this.ai.files.download({
-        file: generatedImage.image,
-        downloadPath: imagePath,
-      });
-      
+      await fs.mkdir(path.dirname(imagePath), { recursive: true });
+      await fs.writeFile(imagePath, image);
+
       console.log(`✓ Reference image saved: ${imagePath}`);
 
       return {
         imagePath,
         imageUrl: `/api/images/${storyId}/reference`,
       };
-    } catch (error: any) {
-      // Provide helpful error message
-      const errorMsg = error?.message || 'Unknown error';
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
       console.error('❌ Image generation failed:', errorMsg);
-      
-      if (errorMsg.includes('not found') || errorMsg.includes('NOT_FOUND')) {
-        throw new Error(
-          'Imagen not available. This feature requires Google Cloud Vertex AI setup.\n' +
-          'To enable image generation:\n' +
-          '1. Enable Vertex AI API in Google Cloud Console\n' +
-          '2. Set up authentication with service account\n' +
-          '3. Set ENABLE_REFERENCE_IMAGES=true in .env\n' +
-          'See: https://cloud.google.com/vertex-ai/docs/generative-ai/image/overview'
-        );
-      }
-      
       throw new Error(`Image generation failed: ${errorMsg}`);
     }
   }
 
+  /**
+   * Draw a single character on a plain background and save it with the story.
+   * Returns the portrait path.
+   */
+  async generateCharacterPortrait(
+    character: StoryStyle['characters'][number],
+    visualStyle: StoryStyle['visualStyle'],
+    storyName: string
+  ): Promise<string> {
+    console.log(`🧑‍🎨 Drawing portrait of ${character.name}...`);
+
+    let prompt = `Character portrait of ${character.name}, ${character.physicalTraits}. ${character.description}. `;
+    prompt += `Art style: ${visualStyle.artStyle}. Color palette: ${visualStyle.colorPalette}. `;
+    prompt += 'Full body, facing the viewer, plain light background, clear details, consistent character design.';
+    if (prompt.length > 1000) {
+      prompt = prompt.substring(0, 997) + '...';
+    }
+
+    // Portrait orientation (an SDXL-supported size)
+    const image = await providers.image.generateImage(prompt, { width: 896, height: 1152 });
+    const imagePath = fileStorage.getCharacterPortraitPath(storyName, character.name);
+    await fs.mkdir(path.dirname(imagePath), { recursive: true });
+    await fs.writeFile(imagePath, image);
+
+    console.log(`✓ Portrait saved: ${imagePath}`);
+    return imagePath;
+  }
+
   /**
    * Build a comprehensive prompt for the reference image
    */
@@ -0,0 +1,300 @@
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '@/config';
+import { fileStorage } from '@/utils/fileStorage';
+import { Job, JobStatus, JobType } from '@/types';
+
+/**
+ * Thrown inside a running job once cancellation has been requested
+ */
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+/**
+ * Handle given to job handlers for recording progress
+ */
+export interface JobContext {
+  jobId: string;
+  /**
+   * Run a named pipeline step. Steps already completed by an earlier attempt are skipped,
+   * which is what lets a job resume after the server restarts.
+   */
+  step(name: string, fn: () => Promise<void>): Promise<void>;
+  /**
+   * Throw JobCancelledError if cancellation was requested
+   */
+  throwIfCancelled(): void;
+}
+
+export interface JobHandler {
+  run(job: Job, context: JobContext): Promise<void>;
+  /**
+   * Called when a job is cancelled before it ever started running
+   */
+  cancelled?(job: Job): Promise<void>;
+}
+
+const ACTIVE_STATUSES: JobStatus[] = ['queued', 'running'];
+
+export class JobQueueService {
+  private handlers = new Map<JobType, JobHandler>();
+  private jobs = new Map<string, Job>();
+  private queue: string[] = [];
+  private runningCount = 0;
+  private loaded = false;
+
+  /**
+   * Register the handler that executes jobs of a given type
+   */
+  registerHandler(type: JobType, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Load persisted jobs and re-queue anything left unfinished by a previous run
+   */
+  async resumePending(): Promise<number> {
+    await this.loadJobs();
+
+    const pending = [...this.jobs.values()].filter(job => ACTIVE_STATUSES.includes(job.status));
+    for (const job of pending) {
+      // A job that was running when the process died restarts from its last completed step
+      job.status = 'queued';
+      await this.persist(job);
+      this.queue.push(job.id);
+    }
+
+    this.drain();
+    return pending.length;
+  }
+
+  /**
+   * Add a job to the queue. Returns the existing job if one of the same type is already
+   * active for the story.
+   */
+  async enqueue(type: JobType, storyId: string): Promise<Job> {
+    await this.loadJobs();
+
+    const existing = [...this.jobs.values()].find(job =>
+      job.type === type && job.storyId === storyId && ACTIVE_STATUSES.includes(job.status)
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const now = new Date().toISOString();
+    const job: Job = {
+      id: uuidv4(),
+      type,
+      storyId,
+      status: 'queued',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+      steps: [],
+    };
+
+    await this.persist(job);
+    this.queue.push(job.id);
+    console.log(`📥 Job queued: ${type} for story ${storyId} (${job.id})`);
+
+    this.drain();
+    return job;
+  }
+
+  /**
+   * Get a job by ID
+   */
+  async getJob(jobId: string): Promise<Job | null> {
+    await this.loadJobs();
+    return this.jobs.get(jobId) || null;
+  }
+
+  /**
+   * List jobs, newest first
+   */
+  async listJobs(filter: { storyId?: string; status?: JobStatus } = {}): Promise<Job[]> {
+    await this.loadJobs();
+    return [...this.jobs.values()]
+      .filter(job => !filter.storyId || job.storyId === filter.storyId)
+      .filter(job => !filter.status || job.status === filter.status)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  /**
+   * Cancel a job. Queued jobs are cancelled immediately; running jobs stop at their next step.
+   */
+  async cancel(jobId: string): Promise<Job | null> {
+    await this.loadJobs();
+    const job = this.jobs.get(jobId);
+    if (!job) return null;
+
+    if (job.status === 'queued') {
+      this.queue = this.queue.filter(id => id !== jobId);
+      job.status = 'cancelled';
+      job.completedAt = new Date().toISOString();
+      await this.persist(job);
+      await this.handlers.get(job.type)?.cancelled?.(job);
+      console.log(`🛑 Job cancelled before start: ${job.id}`);
+    } else if (job.status === 'running') {
+      job.cancelRequested = true;
+      await this.persist(job);
+      console.log(`🛑 Cancellation requested for running job: ${job.id}`);
+    }
+
+    return job;
+  }
+
+  /**
+   * Cancel every active job for a story
+   */
+  async cancelForStory(storyId: string): Promise<void> {
+    const jobs = await this.listJobs({ storyId });
+    for (const job of jobs) {
+      if (ACTIVE_STATUSES.includes(job.status)) {
+        await this.cancel(job.id);
+      }
+    }
+  }
+
+  /**
+   * Whether a story has a queued or running job
+   */
+  async hasActiveJob(storyId: string): Promise<boolean> {
+    const jobs = await this.listJobs({ storyId });
+    return jobs.some(job => ACTIVE_STATUSES.includes(job.status));
+  }
+
+  /**
+   * Start queued jobs while there is spare capacity
+   */
+  private drain(): void {
+    while (this.runningCount < Math.max(1, config.jobs.concurrency) && this.queue.length > 0) {
+      const jobId = this.queue.shift()!;
+      const job = this.jobs.get(jobId);
+      if (!job || job.status !== 'queued') continue;
+
+      this.runningCount++;
+      this.runJob(job)
+        .catch(error => console.error(`Job runner error (${jobId}):`, error))
+        .finally(() => {
+          this.runningCount--;
+          this.drain();
+        });
+    }
+  }
+
+  /**
+   * Execute a single job with its registered handler
+   */
+  private async runJob(job: Job): Promise<void> {
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      job.status = 'failed';
+      job.error = `No handler registered for job type: ${job.type}`;
+      await this.persist(job);
+      return;
+    }
+
+    job.status = 'running';
+    job.attempts++;
+    job.startedAt = new Date().toISOString();
+    job.error = undefined;
+    await this.persist(job);
+
+    console.log(`\n⚙️  Running job ${job.type} (${job.id}), attempt ${job.attempts}`);
+
+    try {
+      await handler.run(job, this.createContext(job));
+      job.status = 'completed';
+      console.log(`✓ Job completed: ${job.type} (${job.id})`);
+    } catch (error) {
+      if (error instanceof JobCancelledError) {
+        job.status = 'cancelled';
+        console.log(`🛑 Job cancelled: ${job.type} (${job.id})`);
+      } else {
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`✗ Job failed: ${job.type} (${job.id}):`, job.error);
+      }
+    }
+
+    job.completedAt = new Date().toISOString();
+    await this.persist(job);
+  }
+
+  /**
+   * Build the step-recording context for a job
+   */
+  private createContext(job: Job): JobContext {
+    const throwIfCancelled = () => {
+      if (job.cancelRequested) {
+        throw new JobCancelledError(job.id);
+      }
+    };
+
+    return {
+      jobId: job.id,
+      throwIfCancelled,
+      step: async (name, fn) => {
+        const existing = job.steps.find(s => s.name === name);
+        if (existing?.status === 'completed') {
+          console.log(`⏭️  Step already completed: ${name}`);
+          return;
+        }
+
+        throwIfCancelled();
+
+        const step = existing || { name, status: 'running' as const, startedAt: '' };
+        step.status = 'running';
+        step.startedAt = new Date().toISOString();
+        step.completedAt = undefined;
+        step.error = undefined;
+        if (!existing) job.steps.push(step);
+        await this.persist(job);
+
+        try {
+          await fn();
+          step.status = 'completed';
+          step.completedAt = new Date().toISOString();
+          await this.persist(job);
+        } catch (error) {
+          step.status = 'failed';
+          step.completedAt = new Date().toISOString();
+          step.error = error instanceof Error ? error.message : 'Unknown error';
+          await this.persist(job);
+          throw error;
+        }
+      },
+    };
+  }
+
+  /**
+   * Load jobs from disk into memory once
+   */
+  private async loadJobs(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    const jobs = await fileStorage.listJobs();
+    for (const job of jobs) {
+      if (!this.jobs.has(job.id)) {
+        this.jobs.set(job.id, job);
+      }
+    }
+  }
+
+  /**
+   * Write job state to memory and disk
+   */
+  private async persist(job: Job): Promise<void> {
+    job.updatedAt = new Date().toISOString();
+    this.jobs.set(job.id, job);
+    await fileStorage.saveJob(job);
+  }
+}
+
+export const jobQueue = new JobQueueService();
@@ -0,0 +1,100 @@
+import { config } from '@/config';
+import { fileStorage } from '@/utils/fileStorage';
+import { runFfmpeg } from '@/utils/ffmpeg';
+import { mentionsCharacter } from '@/utils/characterNames';
+import { CharacterPortrait, StoryData, StorySection, StoryStyle } from '@/types';
+
+// Most portraits placed in one keyframe, so each stays recognisable
+const MAX_KEYFRAME_CHARACTERS = 3;
+
+/**
+ * Picks the image a section's video starts from: a keyframe composed from the
+ * section background and portraits of the characters in the scene, or just the background.
+ */
+export class KeyframeService {
+  /**
+   * Characters mentioned in a section's script or scene description, by full name
+   * or by a distinctive part of it ("Tom" for "Tom Thumb", "Aurora" for "Princess Aurora")
+   */
+  findCharactersInScene(section: StorySection, characters: StoryStyle['characters']): StoryStyle['characters'] {
+    const text = `${section.sceneDescription}\n${section.script}`;
+
+    return characters.filter(character => mentionsCharacter(text, character.name));
+  }
+
+  /**
+   * Path of the image to seed the section's video with, or null to generate from text only
+   */
+  async getSeedImage(story: StoryData, section: StorySection): Promise<string | null> {
+    if (config.video.seedImage === 'none') return null;
+
+    const background = section.backgroundImagePath && await fileStorage.fileExists(section.backgroundImagePath)
+      ? section.backgroundImagePath
+      : null;
+    if (!background || config.video.seedImage === 'background') return background;
+
+    const portraits = await this.getScenePortraits(story, section);
+    if (portraits.length === 0) return background;
+
+    const storyName = story.storyName || fileStorage.sanitizeStoryName(story.originalFilename);
+    const sectionName = fileStorage.sanitizeSectionName(section.sectionName);
+    const keyframePath = fileStorage.getKeyframePath(storyName, sectionName);
+
+    try {
+      await this.composeKeyframe(background, portraits.map(p => p.imagePath), keyframePath);
+      console.log(`🖼️  Keyframe for ${section.sectionName}: ${portraits.map(p => p.name).join(', ')}`);
+      return keyframePath;
+    } catch (error) {
+      console.warn('⚠️  Could not compose keyframe, seeding with the background:', error instanceof Error ? error.message : error);
+      return background;
+    }
+  }
+
+  /**
+   * Portraits (that exist on disk) of the characters present in a section
+   */
+  private async getScenePortraits(story: StoryData, section: StorySection): Promise<CharacterPortrait[]> {
+    const present = this.findCharactersInScene(section, story.styleInfo?.characters ?? []);
+    const portraits: CharacterPortrait[] = [];
+
+    for (const character of present) {
+      const portrait = story.characterPortraits?.find(p => p.name === character.name);
+      if (portrait && await fileStorage.fileExists(portrait.imagePath)) {
+        portraits.push(portrait);
+      }
+      if (portraits.length === MAX_KEYFRAME_CHARACTERS) break;
+    }
+
+    return portraits;
+  }
+
+  /**
+   * Scale the background to the movie frame and stand the portraits along the bottom,
+   * evenly spaced (requires ffmpeg)
+   */
+  private async composeKeyframe(background: string, portraits: string[], outputPath: string): Promise<void> {
+    const { width, height } = config.movie;
+    const portraitHeight = Math.round(height * 0.6);
+
+    const filters = [
+      `[0:v]scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height}[bg]`,
+      ...portraits.map((_, i) => `[${i + 1}:v]scale=-2:${portraitHeight}[p${i}]`),
+      ...portraits.map((_, i) => {
+        const input = i === 0 ? '[bg]' : `[v${i}]`;
+        const x = `${((i + 1) / (portraits.length + 1)).toFixed(4)}*W-w/2`;
+        return `${input}[p${i}]overlay=x=${x}:y=H-h-${Math.round(height * 0.04)}[v${i + 1}]`;
+      }),
+    ];
+
+    await runFfmpeg([
+      '-i', background,
+      ...portraits.flatMap(portrait => ['-i', portrait]),
+      '-filter_complex', filters.join(';'),
+      '-map', `[v${portraits.length}]`,
+      '-frames:v', '1',
+      outputPath,
+    ]);
+  }
+}
+
+export const keyframeService = new KeyframeService();
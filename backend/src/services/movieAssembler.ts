@@ -0,0 +1,161 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '@/config';
+import { fileStorage } from '@/utils/fileStorage';
+import { probeDuration, runFfmpeg } from '@/utils/ffmpeg';
+import { CaptionCue, StoryData, StorySection } from '@/types';
+import { captionService } from './captionService';
+import { audioMixer } from './audioMixer';
+import { JobContext } from './jobQueue';
+
+/**
+ * Escape a path for use inside an ffmpeg filter argument
+ */
+function escapeFilterPath(filePath: string): string {
+  return filePath.replace(/\\/g, '/').replace(/:/g, '\\:').replace(/'/g, "\\'");
+}
+
+export class MovieAssemblerService {
+  /**
+   * Assemble the final movie: one clip per section with narration, joined with fades and captions.
+   * Returns the path of data/<storyName>/final.mp4.
+   */
+  async assembleMovie(story: StoryData, job: JobContext): Promise<string> {
+    if (story.sections.length === 0) {
+      throw new Error('Story has no sections to assemble');
+    }
+
+    const storyName = story.storyName || fileStorage.sanitizeStoryName(story.originalFilename);
+    const workDir = path.join(fileStorage.getStoryDirectory(storyName), '.movie-work');
+    await fs.mkdir(workDir, { recursive: true });
+
+    console.log(`\n🎞️  Assembling movie for ${story.originalFilename} (${story.sections.length} sections)`);
+
+    const clipPaths: string[] = [];
+    let offset = 0;
+
+    for (const section of story.sections) {
+      job.throwIfCancelled();
+
+      const clipPath = path.join(workDir, `clip-${String(section.id).padStart(3, '0')}.mp4`);
+      const captions = await captionService.buildSectionCaptions(story, section);
+      const clipDuration = captions.duration + config.movie.transitionSeconds;
+
+      await job.step(`movie_clip:${section.id}`, async () => {
+        await this.renderSectionClip(section, clipPath, clipDuration, captions.cues, workDir);
+        console.log(`✓ Clip rendered for ${section.sectionName} (${clipDuration.toFixed(1)}s)`);
+      });
+
+      clipPaths.push(clipPath);
+      offset += clipDuration;
+    }
+
+    job.throwIfCancelled();
+
+    const moviePath = fileStorage.getMoviePath(storyName);
+    // Story captions use the same layout (narration + transition per section) as the clips
+    const captionsPath = path.join(workDir, 'captions.srt');
+    const storyCues = await captionService.buildStoryCaptions(story);
+    await fs.writeFile(captionsPath, captionService.format(storyCues, 'srt'), 'utf-8');
+
+    const listPath = path.join(workDir, 'clips.txt');
+    await fs.writeFile(
+      listPath,
+      clipPaths.map(clip => `file '${clip.replace(/'/g, "'\\''")}'`).join('\n'),
+      'utf-8'
+    );
+
+    // Concatenate clips (all encoded identically, so streams are copied) and attach captions
+    const args = ['-f', 'concat', '-safe', '0', '-i', listPath];
+    if (config.movie.burnCaptions || storyCues.length === 0) {
+      args.push('-c', 'copy');
+    } else {
+      args.push(
+        '-i', captionsPath,
+        '-map', '0:v', '-map', '0:a', '-map', '1:s',
+        '-c', 'copy', '-c:s', 'mov_text',
+        '-metadata:s:s:0', 'language=eng'
+      );
+    }
+    args.push('-movflags', '+faststart', moviePath);
+    await runFfmpeg(args);
+
+    await fs.rm(workDir, { recursive: true, force: true });
+
+    console.log(`✓ Movie assembled: ${moviePath} (${offset.toFixed(1)}s)`);
+    return moviePath;
+  }
+
+  /**
+   * Encode one section: picture (video clip, background image or black) fitted to the
+   * narration, with fades at both ends so consecutive clips dip through black
+   */
+  private async renderSectionClip(
+    section: StorySection,
+    clipPath: string,
+    duration: number,
+    cues: CaptionCue[],
+    workDir: string
+  ): Promise<void> {
+    const { width, height, fps, transitionSeconds: fade } = config.movie;
+    const args: string[] = [];
+    let videoFilter = '';
+
+    if (section.videoPath && await fileStorage.fileExists(section.videoPath)) {
+      if (config.movie.fitMode === 'stretch') {
+        const sourceDuration = await probeDuration(section.videoPath);
+        const factor = Math.max(1, duration / sourceDuration);
+        args.push('-i', section.videoPath);
+        videoFilter = `setpts=${factor.toFixed(4)}*PTS,`;
+      } else {
+        args.push('-stream_loop', '-1', '-i', section.videoPath);
+      }
+    } else if (section.backgroundImagePath && await fileStorage.fileExists(section.backgroundImagePath)) {
+      args.push('-loop', '1', '-i', section.backgroundImagePath);
+    } else {
+      args.push('-f', 'lavfi', '-i', `color=c=black:s=${width}x${height}:r=${fps}`);
+    }
+
+    // The mixed track already carries the clip's sound effects and the music bed
+    const audioPath = audioMixer.getPlaybackAudio(section);
+    if (audioPath && await fileStorage.fileExists(audioPath)) {
+      args.push('-i', audioPath);
+    } else {
+      args.push('-f', 'lavfi', '-i', 'anullsrc=r=44100:cl=stereo');
+    }
+
+    videoFilter += [
+      `scale=${width}:${height}:force_original_aspect_ratio=decrease`,
+      `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2`,
+      'setsar=1',
+      `fps=${fps}`,
+      `fade=t=in:st=0:d=${fade}`,
+      `fade=t=out:st=${Math.max(0, duration - fade).toFixed(3)}:d=${fade}`,
+    ].join(',');
+
+    if (config.movie.burnCaptions && cues.length > 0) {
+      const sectionCaptions = path.join(workDir, `captions-${section.id}.srt`);
+      await fs.writeFile(sectionCaptions, captionService.format(cues, 'srt'), 'utf-8');
+      videoFilter += `,subtitles=filename='${escapeFilterPath(sectionCaptions)}'`;
+    }
+
+    // Narration is padded with silence; the tail fade lands on that silence
+    const audioFilter = [
+      'aformat=sample_rates=44100:channel_layouts=stereo',
+      'apad',
+      `afade=t=out:st=${Math.max(0, duration - fade).toFixed(3)}:d=${fade}`,
+    ].join(',');
+
+    await runFfmpeg([
+      ...args,
+      '-filter_complex', `[0:v]${videoFilter}[v];[1:a]${audioFilter}[a]`,
+      '-map', '[v]', '-map', '[a]',
+      '-t', duration.toFixed(3),
+      '-c:v', 'libx264', '-preset', 'veryfast', '-pix_fmt', 'yuv420p',
+      '-c:a', 'aac', '-b:a', '128k', '-ar', '44100', '-ac', '2',
+      clipPath,
+    ]);
+  }
+}
+
+export const movieAssembler = new MovieAssemblerService();
@@ -0,0 +1,95 @@
+import fs from 'fs/promises';
+import { config } from '@/config';
+import { providers } from '@/providers';
+import { fileStorage } from '@/utils/fileStorage';
+import { sanitizeNarrationMarkup, stripNarrationMarkup } from '@/utils/narrationMarkup';
+import { countWords } from '@/utils/storyChunker';
+import { StorySection } from '@/types';
+
+// An adaptation may reword, but not add or drop much of the story
+const MIN_WORD_RATIO = 0.8;
+const MAX_WORD_RATIO = 1.5;
+
+/**
+ * Optional rewrite of section scripts for spoken delivery (config.narration.adapt).
+ * The adapted text is saved as the section's narration script and read by the
+ * speech model instead of the script.
+ */
+export class NarrationService {
+  /**
+   * Rewrite a script for reading aloud. Returns the script unchanged if the model's
+   * version strays too far from it.
+   */
+  async adapt(section: StorySection): Promise<string> {
+    const prompt = `
+You are adapting a section of a children's story so it can be read aloud by a text-to-speech narrator. The listeners are ${config.narration.audience}.
+
+Rewrite the script for spoken delivery:
+- Spell out abbreviations, numbers, symbols and units the way a narrator would say them (e.g. "Dr." -> "Doctor", "3" -> "three")
+- Mark natural pauses with <break time="0.5s" /> tags (at most 3 seconds each), e.g. after a scene change or before a surprise
+- Wrap a word or short phrase that deserves stress in <emphasis>...</emphasis>, sparingly
+- Pace it for the listeners: split very long sentences, but keep every event, name and line of dialogue
+- Keep dialogue in double quotes with its speech tags ("...," said Tom) so each line can be voiced by its character
+- Do not add new content, commentary or a title
+
+SCRIPT:
+${section.script}
+
+Return ONLY the adapted narration text.
+`;
+
+    const response = await providers.text.generateText(prompt, { task: 'narration', source: section.script });
+    const narration = sanitizeNarrationMarkup(response.replace(/^```\w*\n?|```$/g, ''));
+
+    const ratio = countWords(stripNarrationMarkup(narration)) / Math.max(countWords(section.script), 1);
+    if (ratio < MIN_WORD_RATIO || ratio > MAX_WORD_RATIO) {
+      console.warn(`⚠️  Narration adaptation for ${section.sectionName} changed the length too much (${ratio.toFixed(2)}x), reading the script as written`);
+      return section.script;
+    }
+
+    return narration;
+  }
+
+  /**
+   * Adapt a section's script and save it as its narration script, or remove a stale
+   * narration script when adaptation is off. Returns the text to narrate.
+   */
+  async prepare(section: StorySection, storyName: string): Promise<string> {
+    const sectionName = fileStorage.sanitizeSectionName(section.sectionName);
+
+    if (!config.narration.adapt) {
+      await this.clear(section);
+      return section.script;
+    }
+
+    try {
+      const narration = await this.adapt(section);
+      section.narrationScriptPath = await fileStorage.saveNarrationScript(storyName, sectionName, narration);
+      console.log(`✓ Narration script saved: ${section.narrationScriptPath}`);
+      return narration;
+    } catch (error) {
+      console.warn(`⚠️  Narration adaptation failed for ${section.sectionName}, reading the script as written:`, error);
+      await this.clear(section);
+      return section.script;
+    }
+  }
+
+  /**
+   * The text a section's narration is read from: its saved narration script, else its script
+   */
+  async load(section: StorySection): Promise<string> {
+    if (section.narrationScriptPath && await fileStorage.fileExists(section.narrationScriptPath)) {
+      return fs.readFile(section.narrationScriptPath, 'utf-8');
+    }
+    return section.script;
+  }
+
+  private async clear(section: StorySection): Promise<void> {
+    if (section.narrationScriptPath) {
+      await fs.rm(section.narrationScriptPath, { force: true });
+      delete section.narrationScriptPath;
+    }
+  }
+}
+
+export const narrationService = new NarrationService();
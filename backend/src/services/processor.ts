@@ -1,178 +1,400 @@
 import { fileStorage } from '@/utils/fileStorage';
 import { storyAnalyzer } from './storyAnalyzer';
+import { segmentation } from './segmentation';
+import { scriptAlignment } from './scriptAlignment';
 import { styleExtractor } from './styleExtractor';
 import { imageGenerator } from './imageGenerator';
+import { keyframeService } from './keyframeService';
 import { backgroundImageService } from './backgroundImageService';
 import { audioService } from './audioService';
+import { voiceCasting } from './voiceCasting';
+import { narrationService } from './narrationService';
+import { audioMixer } from './audioMixer';
+import { shotPlanner } from './shotPlanner';
 import { videoService } from './videoService';
+import { movieAssembler } from './movieAssembler';
+import { captionService } from './captionService';
+import { assetTracker } from './assetTracker';
+import { jobQueue, JobCancelledError, JobContext } from './jobQueue';
+import { storyEvents } from './storyEvents';
 import { config } from '@/config';
-import { StoryData, StorySection } from '@/types';
+import { getMp3FileDuration } from '@/utils/audioDuration';
+import { CharacterPortrait, RebuildPlan, StoryData, StorySection } from '@/types';
 
 export class StoryProcessorService {
   /**
-   * Process a story: extract style, analyze, and generate videos
+   * Process a story: extract style, analyze, and generate audio.
+   * Each stage runs as a job step so an interrupted job resumes where it stopped.
    */
-  async processStory(storyId: string): Promise<void> {
+  async processStory(storyId: string, job: JobContext): Promise<void> {
+    let story: StoryData | null = null;
+
     try {
       // Load story data
-      const story = await fileStorage.loadStoryData(storyId);
+      story = await fileStorage.loadStoryData(storyId);
       if (!story || !story.textContent) {
         throw new Error('Story not found or has no content');
       }
+      const loadedStory: StoryData = story;
+      const textContent = story.textContent;
 
       console.log(`\n🎬 Starting processing for story: ${story.originalFilename}`);
 
       // Step 1: Extract style information (characters, setting, visual style)
-      await this.updateStoryStatus(storyId, {
-        status: 'extracting_style',
-        progress: 10,
-        currentStep: 'Extracting characters, setting, and style...',
+      await job.step('extract_style', async () => {
+        await this.updateStoryStatus(storyId, {
+          status: 'extracting_style',
+          progress: 10,
+          currentStep: 'Extracting characters, setting, and style...',
+        }, loadedStory);
+
+        console.log('📝 Extracting style information...');
+        const extracted = await styleExtractor.extractStyleInfo(textContent);
+        // Hints supplied when the story was created override what was extracted
+        const styleInfo = loadedStory.styleHints
+          ? styleExtractor.applyHints(extracted, loadedStory.styleHints)
+          : extracted;
+        loadedStory.styleInfo = styleInfo;
+        await fileStorage.saveStoryData(storyId, loadedStory);
+
+        console.log('✓ Style info extracted:', {
+          characters: styleInfo.characters.length,
+          setting: styleInfo.setting.location,
+          style: styleInfo.visualStyle.artStyle,
+        });
       });
 
-      console.log('📝 Extracting style information...');
-      const styleInfo = await styleExtractor.extractStyleInfo(story.textContent);
-      story.styleInfo = styleInfo;
-      await fileStorage.saveStoryData(storyId, story);
-      
-      console.log('✓ Style info extracted:', {
-        characters: styleInfo.characters.length,
-        setting: styleInfo.setting.location,
-        style: styleInfo.visualStyle.artStyle,
-      });
+      const styleInfo = loadedStory.styleInfo!;
 
       // Step 2: Generate reference image for style consistency (optional)
-      if (config.features.enableReferenceImages) {
+      await job.step('reference_image', async () => {
+        if (!config.features.enableReferenceImages) {
+          console.log('ℹ️  Reference image generation disabled (set ENABLE_REFERENCE_IMAGES=true)');
+          return;
+        }
+
         await this.updateStoryStatus(storyId, {
           status: 'generating_reference_image',
           progress: 20,
           currentStep: 'Generating reference image for style consistency...',
-        });
+        }, loadedStory);
 
         console.log('🎨 Generating reference image...');
         try {
           const referenceImage = await imageGenerator.generateReferenceImage(styleInfo, storyId);
-          story.referenceImagePath = referenceImage.imagePath;
-          story.referenceImageUrl = referenceImage.imageUrl;
-          await fileStorage.saveStoryData(storyId, story);
-          
+          loadedStory.referenceImagePath = referenceImage.imagePath;
+          loadedStory.referenceImageUrl = referenceImage.imageUrl;
+          assetTracker.recordReferenceImage(loadedStory);
+          await fileStorage.saveStoryData(storyId, loadedStory);
+
           console.log('✓ Reference image generated');
         } catch (error) {
           console.warn('⚠️  Reference image generation failed, continuing without it:', error);
           // Continue without reference image
         }
-      } else {
-        console.log('ℹ️  Reference image generation disabled (requires Vertex AI)');
-      }
+      });
+
+      // Generate clean story name for folder creation
+      const storyName = loadedStory.storyName || fileStorage.sanitizeStoryName(loadedStory.originalFilename);
+
+      // Step 2b: Draw each character once so every clip can start from the same faces
+      await job.step('character_portraits', async () => {
+        if (!config.features.enableCharacterPortraits || styleInfo.characters.length === 0) {
+          return;
+        }
+
+        await this.updateStoryStatus(storyId, {
+          status: 'generating_reference_image',
+          progress: 25,
+          currentStep: 'Drawing character portraits...',
+        }, loadedStory);
+
+        loadedStory.storyName = storyName;
+        await this.refreshCharacterPortraits(loadedStory);
+        await fileStorage.saveStoryData(storyId, loadedStory);
+      });
 
       // Step 3: Analyze story and create sections with scripts
-      await this.updateStoryStatus(storyId, {
-        status: 'generating_sections',
-        progress: 30,
-        currentStep: 'Analyzing story and creating sections...',
+      await job.step('analyze_sections', async () => {
+        await this.updateStoryStatus(storyId, {
+          status: 'generating_sections',
+          progress: 30,
+          currentStep: 'Analyzing story and creating sections...',
+        }, loadedStory);
+
+        loadedStory.storyName = storyName;
+
+        let sections: Omit<StorySection, 'status'>[];
+        if (loadedStory.providedSections) {
+          console.log('🎭 Using the sections supplied with the story...');
+          sections = storyAnalyzer.fromProvidedSections(loadedStory.providedSections, storyName);
+        } else {
+          console.log('🎭 Analyzing story and creating sections...');
+          sections = await storyAnalyzer.analyzeStory(
+            textContent,
+            styleInfo,
+            storyName,
+            segmentation.resolve(loadedStory.segmentation)
+          );
+        }
+
+        // Map scripts back to the story text, restoring it verbatim if configured
+        // (supplied sections are kept as given)
+        const fidelity = scriptAlignment.verify(textContent, sections, {
+          repair: config.fidelity.autoRepair && !loadedStory.providedSections,
+        });
+        if (fidelity.faithful) {
+          console.log('✓ Section scripts match the story text');
+        } else {
+          console.warn(`⚠️  Section scripts differ from the story text: ${scriptAlignment.summarize(fidelity)}`);
+        }
+
+        // Update story with sections, save scripts, and generate background images
+        loadedStory.sections = await Promise.all(sections.map(async (section) => {
+          const sectionName = fileStorage.sanitizeSectionName(section.sectionName);
+
+          // Add status property for compatibility
+          const sectionWithStatus = { ...section, status: 'pending' as const };
+
+          // Save script file
+          const scriptPath = await fileStorage.saveScript(storyName, sectionName, section.script);
+
+          // Generate background image and save path
+          const backgroundImagePath = await backgroundImageService.generateBackgroundImageForSection(
+            sectionWithStatus,
+            storyName,
+            styleInfo
+          );
+
+          const created: StorySection = {
+            ...sectionWithStatus,
+            scriptPath,
+            backgroundImagePath,
+          };
+          assetTracker.record(loadedStory, created, 'background');
+          return created;
+        }));
+
+        await fileStorage.saveStoryData(storyId, loadedStory);
+        loadedStory.sections.forEach(section => storyEvents.emitSection(storyId, section));
+
+        console.log(`✓ Created ${loadedStory.sections.length} sections with scripts`);
       });
 
-      // Generate clean story name for folder creation
-      const storyName = fileStorage.sanitizeStoryName(story.originalFilename);
-      story.storyName = storyName;
-      
-      console.log('🎭 Analyzing story and creating sections...');
-      const sections = await storyAnalyzer.analyzeStory(story.textContent, styleInfo, storyName);
-      
-      // Update story with sections, save scripts, and generate background images
-      story.sections = await Promise.all(sections.map(async (section) => {
-        const sectionName = fileStorage.sanitizeSectionName(section.sectionName);
-
-        // Add status property for compatibility
-        const sectionWithStatus = { ...section, status: 'pending' as const };
-
-        // Save script file
-        const scriptPath = await fileStorage.saveScript(storyName, sectionName, section.script);
-
-        // Generate background image and save path
-        const backgroundImagePath = await backgroundImageService.generateBackgroundImageForSection(
-          story.textContent!,
-          sectionWithStatus,
-          storyName,
-          styleInfo
-        );
-
-        return {
-          ...sectionWithStatus,
-          scriptPath,
-          backgroundImagePath,
-        };
-      }));
-      
-      // Keep legacy segments for backward compatibility
-      story.segments = story.sections.map(section => ({
-        ...section,
-        status: 'pending' as const,
-      }));
-      
-      await fileStorage.saveStoryData(storyId, story);
-      
-      console.log(`✓ Created ${story.sections.length} sections with scripts`);
+      // Step 3b: Rewrite scripts for reading aloud (or drop narration scripts left from an earlier run)
+      await job.step('adapt_narration', async () => {
+        if (config.narration.adapt) {
+          await this.updateStoryStatus(storyId, {
+            status: 'generating_sections',
+            progress: 55,
+            currentStep: 'Adapting scripts for narration...',
+          }, loadedStory);
+        }
+
+        for (const section of loadedStory.sections) {
+          job.throwIfCancelled();
+
+          // Narration survives from an earlier attempt of this job
+          if (config.narration.adapt && section.narrationScriptPath && await fileStorage.fileExists(section.narrationScriptPath)) {
+            continue;
+          }
+
+          await narrationService.prepare(section, storyName);
+          await fileStorage.saveStoryData(storyId, loadedStory);
+        }
+      });
 
       // Step 4: Generate audio for all sections
-      await this.updateStoryStatus(storyId, {
-        status: 'generating_sections',
-        progress: 60,
-        currentStep: 'Generating audio for all sections...',
+      await job.step('generate_audio', async () => {
+        await this.updateStoryStatus(storyId, {
+          status: 'generating_sections',
+          progress: 60,
+          currentStep: 'Generating audio for all sections...',
+        }, loadedStory);
+
+        console.log('🎵 Generating audio for all sections...');
+        try {
+          if (voiceCasting.castMissing(loadedStory)) {
+            await fileStorage.saveStoryData(storyId, loadedStory);
+          }
+
+          // Generate audio for each section
+          for (const section of loadedStory.sections) {
+            job.throwIfCancelled();
+
+            // Audio survives from an earlier attempt of this job
+            if (section.audioPath && await fileStorage.fileExists(section.audioPath)) {
+              continue;
+            }
+
+            const narration = await narrationService.load(section);
+            const parts = voiceCasting.getVoiceParts(loadedStory, narration);
+            const audioPath = await audioService.generateAudio(section, storyName, parts);
+            section.audioPath = audioPath;
+            await this.measureNarration(section);
+            assetTracker.record(loadedStory, section, 'audio');
+            await fileStorage.saveStoryData(storyId, loadedStory);
+            storyEvents.emitSection(storyId, section);
+            console.log(`✓ Audio generated for section: ${section.sectionName}`);
+          }
+
+          console.log('✓ Audio generation complete for all sections');
+        } catch (error) {
+          if (error instanceof JobCancelledError) throw error;
+          console.warn('⚠️  Audio generation failed, continuing without it:', error);
+          // Continue without audio
+        }
       });
 
-      console.log('🎵 Generating audio for all sections...');
-      try {
-        const storyName = story.storyName || fileStorage.sanitizeStoryName(story.originalFilename);
-        
-        // Generate audio for each section
-        for (let i = 0; i < story.sections.length; i++) {
-          const section = story.sections[i];
-          const audioPath = await audioService.generateAudio(section, storyName);
-          section.audioPath = audioPath;
-          console.log(`✓ Audio generated for section: ${section.sectionName}`);
+      // Step 5: Time captions against the narration
+      await job.step('generate_captions', async () => {
+        await this.updateStoryStatus(storyId, {
+          status: 'generating_sections',
+          progress: 90,
+          currentStep: 'Generating captions...',
+        }, loadedStory);
+
+        console.log('💬 Generating captions...');
+        await captionService.writeCaptions(loadedStory);
+      });
+
+      // Step 5b: Normalize narration and lay music under it (sound effects join once videos exist)
+      await job.step('mix_audio', async () => {
+        if (!config.audioMix.enabled) {
+          return;
         }
-        
-        await fileStorage.saveStoryData(storyId, story);
-        console.log('✓ Audio generation complete for all sections');
-      } catch (error) {
-        console.warn('⚠️  Audio generation failed, continuing without it:', error);
-        // Continue without audio
-      }
 
-      // Step 5: Mark as completed
+        await this.updateStoryStatus(storyId, {
+          status: 'generating_sections',
+          progress: 95,
+          currentStep: 'Mixing narration and music...',
+        }, loadedStory);
+
+        for (const section of loadedStory.sections) {
+          job.throwIfCancelled();
+          await this.mixSectionAudio(loadedStory, section);
+          await fileStorage.saveStoryData(storyId, loadedStory);
+          storyEvents.emitSection(storyId, section);
+        }
+      });
+
+      // Step 6: Mark as completed
       await this.updateStoryStatus(storyId, {
         status: 'completed',
         progress: 100,
         currentStep: 'Story processing complete! Audio generated for all sections.',
-      });
+      }, loadedStory);
 
-      console.log(`\n✓ Story processing complete: ${story.originalFilename}`);
-      console.log(`✓ Created ${story.sections.length} sections with scripts`);
+      console.log(`\n✓ Story processing complete: ${loadedStory.originalFilename}`);
+      console.log(`✓ Created ${loadedStory.sections.length} sections with scripts`);
       console.log(`📁 Story folder: ${storyName}`);
       console.log(`📝 Scripts saved in: data/${storyName}/`);
 
     } catch (error) {
-      console.error(`\n✗ Error processing story ${storyId}:`, error);
-      
+      const cancelled = error instanceof JobCancelledError;
+      if (cancelled) {
+        console.log(`\n🛑 Processing cancelled for story ${storyId}`);
+      } else {
+        console.error(`\n✗ Error processing story ${storyId}:`, error);
+      }
+
       await this.updateStoryStatus(storyId, {
         status: 'failed',
         progress: 0,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      });
+        error: cancelled
+          ? 'Processing cancelled'
+          : error instanceof Error ? error.message : 'Unknown error',
+      }, story);
+
+      throw error;
     }
   }
 
   /**
-   * Update story status
+   * Update story status. Pass the in-memory story when the caller keeps saving it
+   * afterwards, so the status isn't overwritten by a stale copy.
    */
   private async updateStoryStatus(
     storyId: string,
-    updates: Partial<StoryData>
+    updates: Partial<StoryData>,
+    story?: StoryData | null
   ): Promise<void> {
+    const target = story || await fileStorage.loadStoryData(storyId);
+    if (!target) return;
+
+    Object.assign(target, updates);
+    await fileStorage.saveStoryData(storyId, target);
+    storyEvents.emitStatus(target);
+  }
+
+  /**
+   * Mark a story as failed when its processing job is cancelled before it starts
+   */
+  async markCancelled(storyId: string): Promise<void> {
+    await this.updateStoryStatus(storyId, {
+      status: 'failed',
+      progress: 0,
+      error: 'Processing cancelled',
+    });
+  }
+
+  /**
+   * Regenerate the story's reference image from the current style
+   */
+  async generateReferenceImage(storyId: string): Promise<void> {
+    const story = await fileStorage.loadStoryData(storyId);
+    if (!story || !story.styleInfo) {
+      throw new Error('Story not found or missing style info');
+    }
+
+    const referenceImage = await imageGenerator.generateReferenceImage(story.styleInfo, storyId);
+    story.referenceImagePath = referenceImage.imagePath;
+    story.referenceImageUrl = referenceImage.imageUrl;
+    assetTracker.recordReferenceImage(story);
+    await fileStorage.saveStoryData(storyId, story);
+
+    console.log(`✓ Reference image regenerated: ${referenceImage.imagePath}`);
+  }
+
+  /**
+   * Draw portraits for characters that have none or whose description or the visual
+   * style changed since, and drop portraits of characters no longer in the style.
+   * A failed portrait is skipped; its character just won't appear in keyframes.
+   */
+  private async refreshCharacterPortraits(story: StoryData): Promise<void> {
+    const characters = story.styleInfo?.characters ?? [];
+    const storyName = story.storyName || fileStorage.sanitizeStoryName(story.originalFilename);
+    const portraits: CharacterPortrait[] = [];
+
+    for (const character of characters) {
+      const existing = story.characterPortraits?.find(p => p.name === character.name);
+      if (existing && existing.hash === assetTracker.hashPortraitInputs(story, character)) {
+        portraits.push(existing);
+        continue;
+      }
+
+      try {
+        const imagePath = await imageGenerator.generateCharacterPortrait(character, story.styleInfo!.visualStyle, storyName);
+        portraits.push({ name: character.name, imagePath, hash: assetTracker.hashPortraitInputs(story, character) });
+      } catch (error) {
+        console.warn(`⚠️  Portrait of ${character.name} failed, continuing without it:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    story.characterPortraits = portraits;
+    console.log(`✓ ${portraits.length} of ${characters.length} character portraits ready`);
+  }
+
+  /**
+   * Regenerate the portraits whose character or style changed
+   */
+  async generateCharacterPortraits(storyId: string): Promise<void> {
     const story = await fileStorage.loadStoryData(storyId);
-    if (!story) return;
+    if (!story || !story.styleInfo) {
+      throw new Error('Story not found or missing style info');
+    }
 
-    Object.assign(story, updates);
+    await this.refreshCharacterPortraits(story);
     await fileStorage.saveStoryData(storyId, story);
   }
 
@@ -195,14 +417,15 @@ export class StoryProcessorService {
     try {
       const storyName = story.storyName || fileStorage.sanitizeStoryName(story.originalFilename);
       const backgroundImagePath = await backgroundImageService.generateBackgroundImageForSection(
-        story.textContent!,
         section, 
         storyName, 
         story.styleInfo
       );
       
       section.backgroundImagePath = backgroundImagePath;
+      assetTracker.record(story, section, 'background');
       await fileStorage.saveStoryData(storyId, story);
+      storyEvents.emitSection(storyId, section);
       
       console.log(`✓ Background image generated: ${backgroundImagePath}`);
     } catch (error) {
@@ -229,14 +452,22 @@ export class StoryProcessorService {
     
     try {
       const storyName = story.storyName || fileStorage.sanitizeStoryName(story.originalFilename);
-      const audioPath = await audioService.generateAudio(section, storyName);
+      voiceCasting.castMissing(story);
+      // Re-adapt every time: the script may have been edited since the last narration script
+      const narration = await narrationService.prepare(section, storyName);
+      const audioPath = await audioService.generateAudio(section, storyName, voiceCasting.getVoiceParts(story, narration));
       
-      // Update section with audio path and narration script path
+      // Update section with audio path (prepare set or cleared the narration script path)
       section.audioPath = audioPath;
-      const sectionName = fileStorage.sanitizeSectionName(section.sectionName);
-      section.narrationScriptPath = fileStorage.getNarrationScriptPath(storyName, sectionName);
+      await this.measureNarration(section);
+      assetTracker.record(story, section, 'audio');
+      await this.mixSectionAudio(story, section);
       
       await fileStorage.saveStoryData(storyId, story);
+      storyEvents.emitSection(storyId, section);
+
+      // New narration shifts caption timing for this section and everything after it
+      await captionService.writeCaptions(story);
       
       console.log(`✓ Audio generated: ${audioPath}`);
     } catch (error) {
@@ -260,29 +491,108 @@ export class StoryProcessorService {
     }
 
     console.log(`🎬 Generating video for section: ${section.sectionName}`);
+
+    section.status = 'generating';
+    section.error = undefined;
+    await fileStorage.saveStoryData(storyId, story);
+    storyEvents.emitSection(storyId, section);
     
     try {
       const storyName = story.storyName || fileStorage.sanitizeStoryName(story.originalFilename);
-      const videoPath = await videoService.generateVideo(section, storyName, story.styleInfo);
+      await this.planShots(story, section);
+      const seedImage = await keyframeService.getSeedImage(story, section);
+      const videoPath = await videoService.generateVideo(section, storyName, story.styleInfo, seedImage);
       
       section.videoPath = videoPath;
       section.status = 'completed';
+      assetTracker.record(story, section, 'video');
+      // Bring the clip's sound effects into the section's mix
+      await this.mixSectionAudio(story, section);
       await fileStorage.saveStoryData(storyId, story);
+      storyEvents.emitSection(storyId, section);
       
       console.log(`✓ Video generated: ${videoPath}`);
     } catch (error) {
       section.status = 'failed';
       section.error = error instanceof Error ? error.message : 'Unknown error';
       await fileStorage.saveStoryData(storyId, story);
+      storyEvents.emitSection(storyId, section);
       console.error(`✗ Video generation failed: ${error}`);
       throw error;
     }
   }
 
+  /**
+   * Give a section longer than one clip a shot list before its video is made. Without
+   * one (planning off or failed) the clips just cover the narration in order.
+   */
+  private async planShots(story: StoryData, section: StorySection): Promise<void> {
+    if (!shotPlanner.needsShots(section)) return;
+
+    try {
+      section.shots = await shotPlanner.planShots(story, section);
+      await fileStorage.saveStoryData(story.id, story);
+    } catch (error) {
+      console.warn(`⚠️  Shot planning failed for ${section.sectionName}, splitting the narration between clips:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Store the narration's length as the section's duration, so its video is planned to cover it
+   */
+  private async measureNarration(section: StorySection): Promise<void> {
+    const seconds = section.audioPath ? await getMp3FileDuration(section.audioPath) : 0;
+    if (seconds > 0) {
+      section.duration = Math.round(seconds * 10) / 10;
+      console.log(`⏱️  Narration for ${section.sectionName}: ${section.duration}s`);
+    }
+  }
+
+  /**
+   * Remix a section's audio
+   */
+  async mixAudio(storyId: string, sectionId: number): Promise<void> {
+    const story = await fileStorage.loadStoryData(storyId);
+    if (!story) {
+      throw new Error('Story not found');
+    }
+
+    const section = story.sections.find(s => s.id === sectionId);
+    if (!section) {
+      throw new Error('Section not found');
+    }
+
+    if (!await this.mixSectionAudio(story, section)) {
+      throw new Error('Audio mixing failed');
+    }
+    await fileStorage.saveStoryData(storyId, story);
+    storyEvents.emitSection(storyId, section);
+  }
+
+  /**
+   * Mix a section's narration, music and sound effects when mixing is enabled.
+   * A failed mix leaves playback on the raw narration. Returns whether a mix was written.
+   */
+  private async mixSectionAudio(story: StoryData, section: StorySection): Promise<boolean> {
+    if (!config.audioMix.enabled) return false;
+
+    try {
+      const mixedAudioPath = await audioMixer.mixSection(story, section);
+      if (!mixedAudioPath) return false;
+
+      section.mixedAudioPath = mixedAudioPath;
+      assetTracker.record(story, section, 'mix');
+      return true;
+    } catch (error) {
+      console.warn(`⚠️  Audio mixing failed for ${section.sectionName}, playing the raw narration:`, error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
   /**
    * Generate videos for all sections in a story
    */
-  async generateAllVideos(storyId: string): Promise<void> {
+  async generateAllVideos(storyId: string, job: JobContext): Promise<void> {
     const story = await fileStorage.loadStoryData(storyId);
     if (!story || !story.styleInfo) {
       throw new Error('Story not found or missing style info');
@@ -297,9 +607,10 @@ export class StoryProcessorService {
 
     for (let i = 0; i < story.sections.length; i++) {
       const section = story.sections[i];
+      job.throwIfCancelled();
       
-      // Skip if already completed
-      if (section.status === 'completed' && section.videoPath) {
+      // Skip if already completed and generated from the current inputs
+      if (section.status === 'completed' && section.videoPath && !section.staleAssets?.includes('video')) {
         console.log(`⏭️  Section ${section.id}/${story.sections.length}: ${section.sectionName} - Already completed`);
         successCount++;
         continue;
@@ -308,10 +619,11 @@ export class StoryProcessorService {
       console.log(`\n📹 Section ${section.id}/${story.sections.length}: ${section.sectionName}`);
       
       try {
-        await this.generateVideo(storyId, section.id);
+        await job.step(`video:${section.id}`, () => this.generateVideo(storyId, section.id));
         successCount++;
         console.log(`✅ Section ${section.id} completed (${successCount}/${story.sections.length} done)`);
       } catch (error) {
+        if (error instanceof JobCancelledError) throw error;
         failCount++;
         console.error(`❌ Section ${section.id} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
         // Continue to next section even if one fails
@@ -326,8 +638,105 @@ export class StoryProcessorService {
 
     console.log(`\n✅ Video generation complete!`);
     console.log(`📊 Results: ${successCount} successful, ${failCount} failed, ${story.sections.length} total`);
+
+    // Stitch the finished clips into the final movie
+    if (successCount > 0) {
+      await jobQueue.enqueue('assemble-movie', storyId);
+    }
+  }
+
+  /**
+   * What a rebuild would regenerate: a reference image made with an older style, outdated
+   * character portraits, and for each section its stale assets plus missing narration and backgrounds
+   */
+  getRebuildPlan(story: StoryData): RebuildPlan {
+    return {
+      referenceImage: assetTracker.isReferenceImageStale(story),
+      characterPortraits: assetTracker.getStalePortraits(story).length > 0,
+      sections: story.sections
+        .map(section => ({ sectionId: section.id, assets: assetTracker.getRebuildPlan(story, section) }))
+        .filter(entry => entry.assets.length > 0),
+    };
+  }
+
+  /**
+   * Regenerate only the assets whose inputs changed, then refresh the movie if there was one
+   */
+  async rebuildStory(storyId: string, job: JobContext): Promise<void> {
+    const story = await fileStorage.loadStoryData(storyId);
+    if (!story) {
+      throw new Error('Story not found');
+    }
+
+    const plan = this.getRebuildPlan(story);
+    console.log(`\n🔁 Rebuilding ${plan.sections.length} sections of ${story.originalFilename}`);
+
+    if (plan.referenceImage) {
+      await job.step('rebuild:reference_image', () => this.generateReferenceImage(storyId));
+    }
+    if (plan.characterPortraits) {
+      await job.step('rebuild:character_portraits', () => this.generateCharacterPortraits(storyId));
+    }
+
+    for (const { sectionId, assets } of plan.sections) {
+      for (const asset of assets) {
+        job.throwIfCancelled();
+        await job.step(`rebuild:${sectionId}:${asset}`, async () => {
+          switch (asset) {
+            case 'audio':
+              return this.generateAudio(storyId, sectionId);
+            case 'background':
+              return this.generateBackgroundImage(storyId, sectionId);
+            case 'video':
+              return this.generateVideo(storyId, sectionId);
+            case 'mix':
+              return this.mixAudio(storyId, sectionId);
+          }
+        });
+      }
+    }
+
+    if (plan.sections.length > 0 && story.moviePath) {
+      await jobQueue.enqueue('assemble-movie', storyId);
+    }
+
+    console.log(`✅ Rebuild complete for ${story.originalFilename}`);
+  }
+
+  /**
+   * Assemble the final movie from all section clips, narration and captions
+   */
+  async assembleMovie(storyId: string, job: JobContext): Promise<void> {
+    const story = await fileStorage.loadStoryData(storyId);
+    if (!story) {
+      throw new Error('Story not found');
+    }
+
+    const moviePath = await movieAssembler.assembleMovie(story, job);
+
+    // Reload so section updates made while rendering are not overwritten
+    const latest = await fileStorage.loadStoryData(storyId) || story;
+    latest.moviePath = moviePath;
+    latest.movieUpdatedAt = new Date().toISOString();
+    await fileStorage.saveStoryData(storyId, latest);
   }
 }
 
 export const storyProcessor = new StoryProcessorService();
 
+jobQueue.registerHandler('process-story', {
+  run: (job, context) => storyProcessor.processStory(job.storyId, context),
+  cancelled: (job) => storyProcessor.markCancelled(job.storyId),
+});
+
+jobQueue.registerHandler('generate-all-videos', {
+  run: (job, context) => storyProcessor.generateAllVideos(job.storyId, context),
+});
+
+jobQueue.registerHandler('assemble-movie', {
+  run: (job, context) => storyProcessor.assembleMovie(job.storyId, context),
+});
+
+jobQueue.registerHandler('rebuild-story', {
+  run: (job, context) => storyProcessor.rebuildStory(job.storyId, context),
+});
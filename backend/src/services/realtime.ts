@@ -0,0 +1,71 @@
+import { Server } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { fileStorage } from '@/utils/fileStorage';
+import { storyEvents, StoryEvent } from './storyEvents';
+
+// How often to ping clients so dead connections get cleaned up
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+/**
+ * Attach the WebSocket server that pushes story progress to clients.
+ * Clients connect to /ws?storyId=<id> and receive a snapshot followed by live events.
+ */
+export function attachRealtimeServer(server: Server): WebSocketServer {
+  const wss = new WebSocketServer({ server, path: '/ws' });
+  const alive = new WeakMap<WebSocket, boolean>();
+
+  wss.on('connection', async (socket, req) => {
+    const url = new URL(req.url || '', 'http://localhost');
+    const storyId = url.searchParams.get('storyId');
+
+    if (!storyId) {
+      socket.close(1008, 'storyId query parameter is required');
+      return;
+    }
+
+    alive.set(socket, true);
+    socket.on('pong', () => alive.set(socket, true));
+
+    const send = (event: StoryEvent | { type: 'snapshot'; storyId: string; story: unknown }) => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(event));
+      }
+    };
+
+    const unsubscribe = storyEvents.subscribe(storyId, send);
+    socket.on('close', unsubscribe);
+    socket.on('error', (error) => {
+      console.error('WebSocket error:', error);
+      unsubscribe();
+    });
+
+    // Send the current state so clients don't have to poll before the first event
+    try {
+      const story = await fileStorage.loadStoryData(storyId);
+      if (!story) {
+        socket.close(1008, 'Story not found');
+        return;
+      }
+
+      const { textContent, ...snapshot } = story;
+      send({ type: 'snapshot', storyId, story: snapshot });
+    } catch (error) {
+      console.error('Error sending story snapshot:', error);
+    }
+  });
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((socket) => {
+      if (!alive.get(socket)) {
+        socket.terminate();
+        return;
+      }
+      alive.set(socket, false);
+      socket.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  wss.on('close', () => clearInterval(heartbeat));
+
+  return wss;
+}
@@ -0,0 +1,341 @@
+import { FidelityIssue, FidelityReport, SectionFidelity, StorySection } from '@/types';
+
+type AlignableSection = Pick<StorySection, 'id' | 'script' | 'sourceStart' | 'sourceEnd'>;
+
+interface Word {
+  text: string; // Normalized for comparison
+  start: number; // Character offsets in the original text
+  end: number;
+}
+
+interface WordSpan {
+  start: number; // Index of the first source word
+  end: number; // Index after the last source word
+}
+
+// Words compared in a row when looking for where a script starts and ends in the source
+const ANCHOR_WORDS = 3;
+// How far into a script to look for an anchor before giving up on it
+const ANCHOR_ATTEMPTS = 25;
+// Longest source or script excerpt included in an issue
+const MAX_EXCERPT = 160;
+
+/**
+ * Lowercased words with curly quotes straightened, plus their offsets
+ */
+function tokenize(text: string): Word[] {
+  return [...text.matchAll(/[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu)].map(match => ({
+    text: match[0].toLowerCase().replace(/’/g, "'"),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+/**
+ * Length of the longest common subsequence of two word lists (two-row DP)
+ */
+function commonWords(a: string[], b: string[]): number {
+  let previous = new Uint32Array(b.length + 1);
+  let current = new Uint32Array(b.length + 1);
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a[i - 1] === b[j - 1]
+        ? previous[j - 1] + 1
+        : Math.max(previous[j], current[j - 1]);
+    }
+    [previous, current] = [current, previous];
+  }
+  return previous[b.length];
+}
+
+function excerpt(text: string): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > MAX_EXCERPT ? `${clean.substring(0, MAX_EXCERPT)}…` : clean;
+}
+
+/**
+ * Checks that section scripts reproduce the story text verbatim: maps each script
+ * to a span of the source and reports text that was skipped between sections,
+ * repeated in two sections, or changed inside a section.
+ */
+export class ScriptAlignmentService {
+  /**
+   * Align every section's script with the source text
+   */
+  check(source: string, sections: AlignableSection[]): FidelityReport {
+    const sourceWords = tokenize(source);
+    const index = this.buildAnchorIndex(sourceWords);
+    const results: SectionFidelity[] = [];
+    const issues: FidelityIssue[] = [];
+    const covered = new Uint8Array(sourceWords.length);
+
+    let searchFrom = 0;
+    let previous: { sectionId: number; span: WordSpan } | null = null;
+
+    for (const section of sections) {
+      const scriptWords = tokenize(section.script).map(word => word.text);
+      const span = this.locate(scriptWords, sourceWords, index, searchFrom);
+
+      if (!span) {
+        results.push({ sectionId: section.id, scriptWords: scriptWords.length, matchedWords: 0, unmatchedWords: scriptWords.length, omittedWords: 0 });
+        issues.push({ type: 'unaligned', sectionId: section.id, words: scriptWords.length, text: excerpt(section.script) });
+        continue;
+      }
+
+      const spanWords = sourceWords.slice(span.start, span.end).map(word => word.text);
+      const matched = commonWords(scriptWords, spanWords);
+      const result: SectionFidelity = {
+        sectionId: section.id,
+        sourceStart: this.tokenStart(source, sourceWords[span.start].start),
+        sourceEnd: this.tokenEnd(source, sourceWords[span.end - 1].end),
+        scriptWords: scriptWords.length,
+        matchedWords: matched,
+        unmatchedWords: scriptWords.length - matched,
+        omittedWords: spanWords.length - matched,
+      };
+      results.push(result);
+      covered.fill(1, span.start, span.end);
+
+      if (result.unmatchedWords > 0) {
+        issues.push({ type: 'hallucinated', sectionId: section.id, words: result.unmatchedWords, text: excerpt(section.script) });
+      }
+      if (result.omittedWords > 0) {
+        issues.push({
+          type: 'omitted',
+          sectionId: section.id,
+          words: result.omittedWords,
+          sourceStart: result.sourceStart,
+          sourceEnd: result.sourceEnd,
+          text: excerpt(source.slice(result.sourceStart, result.sourceEnd)),
+        });
+      }
+
+      const gapStart = previous ? previous.span.end : 0;
+      if (span.start > gapStart) {
+        issues.push(this.rangeIssue('gap', source, sourceWords, gapStart, span.start, section.id));
+      } else if (previous && span.start < previous.span.end) {
+        issues.push(this.rangeIssue('overlap', source, sourceWords, span.start, Math.min(previous.span.end, span.end), section.id));
+      }
+
+      previous = { sectionId: section.id, span };
+      searchFrom = span.start;
+    }
+
+    const trailingStart = previous ? previous.span.end : 0;
+    if (sourceWords.length > trailingStart && previous) {
+      issues.push(this.rangeIssue('gap', source, sourceWords, trailingStart, sourceWords.length));
+    }
+
+    const coveredWords = covered.reduce((total, value) => total + value, 0);
+    return {
+      checkedAt: new Date().toISOString(),
+      sourceWords: sourceWords.length,
+      coverage: sourceWords.length > 0 ? Math.round((coveredWords / sourceWords.length) * 1000) / 1000 : 0,
+      faithful: issues.length === 0,
+      sections: results,
+      issues,
+    };
+  }
+
+  /**
+   * Check sections against the source, optionally repair them, and store each
+   * section's source offsets. Returns the final report.
+   */
+  verify(source: string, sections: AlignableSection[], options: { repair?: boolean } = {}): FidelityReport {
+    let report = this.check(source, sections);
+
+    if (!report.faithful && options.repair) {
+      const changed = this.repair(source, sections, report);
+      if (changed.length > 0) {
+        console.log(`🩹 Restored story text in sections: ${changed.join(', ')}`);
+        report = this.check(source, sections);
+      }
+    }
+
+    this.annotate(sections, report);
+    return report;
+  }
+
+  /**
+   * One-line summary of a report's issues for logs
+   */
+  summarize(report: FidelityReport): string {
+    if (report.faithful) return 'scripts match the story text';
+    const counts = new Map<string, number>();
+    for (const issue of report.issues) {
+      counts.set(issue.type, (counts.get(issue.type) || 0) + issue.words);
+    }
+    const parts = [...counts].map(([type, words]) => `${type} ${words} words`);
+    return `${Math.round(report.coverage * 100)}% of story covered; ${parts.join(', ')}`;
+  }
+
+  /**
+   * Store each section's source offsets from a report (cleared where unaligned)
+   */
+  annotate(sections: AlignableSection[], report: FidelityReport): void {
+    for (const section of sections) {
+      const result = report.sections.find(r => r.sectionId === section.id);
+      if (result?.sourceStart !== undefined && result.sourceEnd !== undefined) {
+        section.sourceStart = result.sourceStart;
+        section.sourceEnd = result.sourceEnd;
+      } else {
+        delete section.sourceStart;
+        delete section.sourceEnd;
+      }
+    }
+  }
+
+  /**
+   * Replace scripts with the exact source text. Section boundaries are placed so
+   * the sections cover the whole story once: skipped text joins the section before
+   * it (or the first section), repeated text stays with the earlier section.
+   * Sections that couldn't be located, or that are out of story order, are left as they are.
+   * Returns the ids of the sections whose script changed.
+   */
+  repair(source: string, sections: AlignableSection[], report: FidelityReport): number[] {
+    const located = sections.filter(section => {
+      const result = report.sections.find(r => r.sectionId === section.id);
+      return result?.sourceStart !== undefined;
+    });
+
+    // Keep the longest run of sections that appear in story order
+    const ordered: AlignableSection[] = [];
+    let lastStart = -1;
+    for (const section of located) {
+      const start = report.sections.find(r => r.sectionId === section.id)!.sourceStart!;
+      if (start > lastStart) {
+        ordered.push(section);
+        lastStart = start;
+      }
+    }
+
+    const changed: number[] = [];
+    ordered.forEach((section, i) => {
+      const result = report.sections.find(r => r.sectionId === section.id)!;
+      const start = i === 0 ? 0 : Math.max(
+        result.sourceStart!,
+        report.sections.find(r => r.sectionId === ordered[i - 1].id)!.sourceEnd!
+      );
+      const next = ordered[i + 1]
+        ? report.sections.find(r => r.sectionId === ordered[i + 1].id)!
+        : null;
+      const end = next ? Math.max(start, Math.max(next.sourceStart!, result.sourceEnd!)) : source.length;
+
+      const text = source.slice(start, end);
+      const script = text.trim();
+      if (!script) return;
+
+      const leading = text.length - text.trimStart().length;
+      section.sourceStart = start + leading;
+      section.sourceEnd = section.sourceStart + script.length;
+      if (script !== section.script) {
+        section.script = script;
+        changed.push(section.id);
+      }
+    });
+
+    return changed;
+  }
+
+  /**
+   * Map of every ANCHOR_WORDS-long word sequence in the source to where it occurs
+   */
+  private buildAnchorIndex(words: Word[]): Map<string, number[]> {
+    const index = new Map<string, number[]>();
+    for (let i = 0; i + ANCHOR_WORDS <= words.length; i++) {
+      const key = words.slice(i, i + ANCHOR_WORDS).map(word => word.text).join(' ');
+      const positions = index.get(key);
+      if (positions) {
+        positions.push(i);
+      } else {
+        index.set(key, [i]);
+      }
+    }
+    return index;
+  }
+
+  /**
+   * Find the source span a script covers: anchor its first words at or after
+   * `from` (falling back to anywhere), then anchor its last words after that
+   */
+  private locate(script: string[], source: Word[], index: Map<string, number[]>, from: number): WordSpan | null {
+    if (script.length === 0) return null;
+
+    const size = Math.min(ANCHOR_WORDS, script.length);
+    const find = (offset: number, after: number): number | null => {
+      const key = script.slice(offset, offset + size).join(' ');
+      if (size === ANCHOR_WORDS) {
+        return index.get(key)?.find(position => position >= after) ?? null;
+      }
+      // Scripts shorter than an anchor are matched directly
+      for (let i = after; i + size <= source.length; i++) {
+        if (source.slice(i, i + size).map(word => word.text).join(' ') === key) return i;
+      }
+      return null;
+    };
+
+    const maxOffset = Math.min(ANCHOR_ATTEMPTS, script.length - size);
+    let start: number | null = null;
+    for (const after of [from, 0]) {
+      for (let offset = 0; offset <= maxOffset && start === null; offset++) {
+        const position = find(offset, after);
+        if (position !== null) start = Math.max(0, position - offset);
+      }
+      if (start !== null) break;
+    }
+    if (start === null) return null;
+
+    for (let back = 0; back <= maxOffset; back++) {
+      const offset = script.length - size - back;
+      const position = find(offset, start);
+      if (position !== null) {
+        return { start, end: Math.min(source.length, position + size + back) };
+      }
+    }
+    return { start, end: Math.min(source.length, start + script.length) };
+  }
+
+  /**
+   * Include opening quotes and punctuation directly before a word
+   */
+  private tokenStart(source: string, start: number): number {
+    let position = start;
+    while (position > 0 && /[^\s\p{L}\p{N}]/u.test(source[position - 1])) {
+      position--;
+    }
+    return position;
+  }
+
+  /**
+   * Include closing punctuation and quotes directly after a word
+   */
+  private tokenEnd(source: string, end: number): number {
+    let position = end;
+    while (position < source.length && /[^\s\p{L}\p{N}]/u.test(source[position])) {
+      position++;
+    }
+    return position;
+  }
+
+  private rangeIssue(
+    type: 'gap' | 'overlap',
+    source: string,
+    words: Word[],
+    start: number,
+    end: number,
+    sectionId?: number
+  ): FidelityIssue {
+    const sourceStart = words[start].start;
+    const sourceEnd = words[end - 1].end;
+    return {
+      type,
+      sectionId,
+      words: end - start,
+      sourceStart,
+      sourceEnd,
+      text: excerpt(source.slice(sourceStart, sourceEnd)),
+    };
+  }
+}
+
+export const scriptAlignment = new ScriptAlignmentService();
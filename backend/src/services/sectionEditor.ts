@@ -0,0 +1,404 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '@/config';
+import { fileStorage } from '@/utils/fileStorage';
+import { findSplitPoint } from '@/utils/storyChunker';
+import { estimateNarrationSeconds } from '@/utils/clipPlanning';
+import { assetTracker } from './assetTracker';
+import { captionService } from './captionService';
+import { jobQueue } from './jobQueue';
+import { scriptAlignment } from './scriptAlignment';
+import { shotPlanner } from './shotPlanner';
+import { storyEvents } from './storyEvents';
+import { StructuredOutputError } from './structuredOutput';
+import { Shot, StoryData, StorySection } from '@/types';
+
+export class SectionEditError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'SectionEditError';
+  }
+}
+
+export interface SectionUpdate {
+  sceneDescription?: string;
+  script?: string;
+  duration?: number;
+}
+
+export interface NewSection {
+  sceneDescription: string;
+  script: string;
+  duration?: number;
+  position?: number; // 1-based position of the new section; defaults to the end
+}
+
+const EDITABLE_FIELDS: Array<keyof SectionUpdate> = ['sceneDescription', 'script', 'duration'];
+
+/**
+ * Edits section boundaries and content after analysis. Structural edits renumber
+ * sections (id and sectionName) and move their folders to match.
+ */
+export class SectionEditorService {
+  /**
+   * Edit a section's scene description, script or duration. A new scene description
+   * or script drops the section's shot list.
+   */
+  async updateSection(storyId: string, sectionId: number, updates: SectionUpdate): Promise<StoryData> {
+    const story = await this.loadEditableStory(storyId);
+    const section = this.findSection(story, sectionId);
+    const storyName = this.getStoryName(story);
+    const sectionName = fileStorage.sanitizeSectionName(section.sectionName);
+    assetTracker.adoptBaseline(story, section);
+
+    for (const field of EDITABLE_FIELDS) {
+      if (updates[field] === undefined || updates[field] === section[field]) continue;
+
+      Object.assign(section, { [field]: updates[field] });
+
+      // Shots are planned from the scene and script
+      if (field !== 'duration') delete section.shots;
+
+      if (field === 'script') {
+        section.scriptPath = await fileStorage.saveScript(storyName, sectionName, section.script);
+        await this.discardAlignment(story, section);
+        // Until the new narration is measured
+        if (updates.duration === undefined) section.duration = estimateNarrationSeconds(section.script);
+      }
+    }
+    assetTracker.refresh(story, section);
+
+    console.log(`✏️  Section ${section.id} updated (stale: ${section.staleAssets?.join(', ') || 'none'})`);
+    return this.save(story);
+  }
+
+  /**
+   * Split a section in two at a character offset of its script (default: the sentence
+   * boundary nearest the middle). The first half keeps the section's assets, marked stale.
+   */
+  async splitSection(storyId: string, sectionId: number, at?: number, sceneDescription?: string): Promise<StoryData> {
+    const story = await this.loadEditableStory(storyId);
+    const section = this.findSection(story, sectionId);
+
+    const offset = at ?? findSplitPoint(section.script);
+    if (offset === null) {
+      throw new SectionEditError('Section script is too short to split', 400);
+    }
+    const first = section.script.slice(0, offset).trim();
+    const second = section.script.slice(offset).trim();
+    if (!first || !second) {
+      throw new SectionEditError('Split point must leave text on both sides', 400);
+    }
+
+    assetTracker.adoptBaseline(story, section);
+    section.script = first;
+    section.duration = estimateNarrationSeconds(first);
+    delete section.shots;
+    assetTracker.refresh(story, section);
+    await this.discardAlignment(story, section);
+
+    const index = story.sections.indexOf(section);
+    story.sections.splice(index + 1, 0, {
+      id: 0, // Assigned when renumbering
+      sectionName: '',
+      sceneDescription: sceneDescription || section.sceneDescription,
+      script: second,
+      duration: estimateNarrationSeconds(second),
+      status: 'pending',
+    });
+
+    console.log(`✂️  Section ${sectionId} split at character ${offset}`);
+    await this.renumber(story);
+    return this.save(story);
+  }
+
+  /**
+   * Merge consecutive sections into the first of them. The others' folders are removed.
+   */
+  async mergeSections(storyId: string, sectionIds: number[]): Promise<StoryData> {
+    const story = await this.loadEditableStory(storyId);
+    const ids = [...new Set(sectionIds)].sort((a, b) => a - b);
+    if (ids.length < 2) {
+      throw new SectionEditError('At least two sections are needed to merge', 400);
+    }
+
+    const sections = ids.map(id => this.findSection(story, id));
+    const start = story.sections.indexOf(sections[0]);
+    if (sections.some((section, i) => story.sections[start + i] !== section)) {
+      throw new SectionEditError('Only consecutive sections can be merged', 400);
+    }
+
+    const [target, ...rest] = sections;
+    assetTracker.adoptBaseline(story, target);
+    target.script = sections.map(section => section.script).join('\n\n');
+    target.sceneDescription = sections.map(section => section.sceneDescription).join(' ');
+    if (sections.every(section => section.duration)) {
+      target.duration = sections.reduce((total, section) => total + (section.duration || 0), 0);
+    }
+    delete target.shots;
+    assetTracker.refresh(story, target);
+    await this.discardAlignment(story, target);
+
+    const storyName = this.getStoryName(story);
+    for (const section of rest) {
+      const directory = fileStorage.getSectionDirectory(storyName, fileStorage.sanitizeSectionName(section.sectionName));
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+    story.sections.splice(start + 1, rest.length);
+
+    console.log(`🔗 Sections ${ids.join(', ')} merged`);
+    await this.renumber(story);
+    return this.save(story);
+  }
+
+  /**
+   * Reorder sections. `order` lists every current section id in the new order.
+   */
+  async reorderSections(storyId: string, order: number[]): Promise<StoryData> {
+    const story = await this.loadEditableStory(storyId);
+
+    const current = story.sections.map(section => section.id).sort((a, b) => a - b);
+    const requested = [...order].sort((a, b) => a - b);
+    if (current.length !== requested.length || current.some((id, i) => id !== requested[i])) {
+      throw new SectionEditError('Order must list every section id exactly once', 400);
+    }
+
+    story.sections = order.map(id => this.findSection(story, id));
+
+    console.log(`🔀 Sections reordered: ${order.join(', ')}`);
+    await this.renumber(story);
+    return this.save(story);
+  }
+
+  /**
+   * Insert a new section (without assets) at a position
+   */
+  async insertSection(storyId: string, input: NewSection): Promise<StoryData> {
+    const story = await this.loadEditableStory(storyId);
+
+    const position = input.position ?? story.sections.length + 1;
+    if (position < 1 || position > story.sections.length + 1) {
+      throw new SectionEditError(`Position must be between 1 and ${story.sections.length + 1}`, 400);
+    }
+
+    story.sections.splice(position - 1, 0, {
+      id: 0, // Assigned when renumbering
+      sectionName: '',
+      sceneDescription: input.sceneDescription,
+      script: input.script,
+      duration: input.duration ?? estimateNarrationSeconds(input.script),
+      status: 'pending',
+    });
+
+    console.log(`➕ Section inserted at position ${position}`);
+    await this.renumber(story);
+    return this.save(story);
+  }
+
+  /**
+   * Replace a section's shot list. Durations must be clip lengths the video model can
+   * make and characters must be in the story's style.
+   */
+  async setShots(storyId: string, sectionId: number, shots: Shot[]): Promise<StoryData> {
+    const story = await this.loadEditableStory(storyId);
+    const section = this.findSection(story, sectionId);
+
+    if (shots.length > config.video.maxClipsPerSection) {
+      throw new SectionEditError(`A section can have at most ${config.video.maxClipsPerSection} shots`, 400);
+    }
+    const badDuration = shots.find(shot => !config.video.clipLengths.includes(shot.duration));
+    if (badDuration) {
+      throw new SectionEditError(`Shot duration must be one of ${config.video.clipLengths.join(', ')} seconds (got ${badDuration.duration})`, 400);
+    }
+
+    const normalized = shots.map(shot => {
+      const { known, unknown } = shotPlanner.matchCharacters(story, shot.characters);
+      if (unknown.length > 0) {
+        throw new SectionEditError(`Unknown character: ${unknown.join(', ')}`, 400);
+      }
+      return { ...shot, characters: known };
+    });
+
+    assetTracker.adoptBaseline(story, section);
+    section.shots = normalized;
+    assetTracker.refresh(story, section);
+
+    console.log(`🎞️  Shot list for section ${section.id} set (${normalized.length} shots)`);
+    return this.save(story);
+  }
+
+  /**
+   * Plan a new shot list for a section with the text model, replacing its current one
+   */
+  async planShots(storyId: string, sectionId: number): Promise<StoryData> {
+    const story = await this.loadEditableStory(storyId);
+    const section = this.findSection(story, sectionId);
+
+    assetTracker.adoptBaseline(story, section);
+    try {
+      section.shots = await shotPlanner.planShots(story, section);
+    } catch (error) {
+      if (error instanceof StructuredOutputError) {
+        throw new SectionEditError(error.message, 502);
+      }
+      throw error;
+    }
+    assetTracker.refresh(story, section);
+
+    return this.save(story);
+  }
+
+  /**
+   * Remove a section's shot list; a new one is planned when its video is next generated
+   * (see ShotPlannerService.needsShots)
+   */
+  async clearShots(storyId: string, sectionId: number): Promise<StoryData> {
+    const story = await this.loadEditableStory(storyId);
+    const section = this.findSection(story, sectionId);
+
+    assetTracker.adoptBaseline(story, section);
+    delete section.shots;
+    assetTracker.refresh(story, section);
+
+    console.log(`🎞️  Shot list for section ${section.id} cleared`);
+    return this.save(story);
+  }
+
+  /**
+   * Replace every script with the exact story text it was taken from, so no text is
+   * skipped, repeated or paraphrased. Changed sections' assets become stale.
+   */
+  async repairScripts(storyId: string): Promise<StoryData> {
+    const story = await this.loadEditableStory(storyId);
+    if (!story.textContent) {
+      throw new SectionEditError('Story has no source text to repair from', 409);
+    }
+
+    const report = scriptAlignment.check(story.textContent, story.sections);
+    for (const section of story.sections) {
+      assetTracker.adoptBaseline(story, section);
+    }
+
+    const changed = scriptAlignment.repair(story.textContent, story.sections, report);
+    const storyName = this.getStoryName(story);
+    for (const id of changed) {
+      const section = this.findSection(story, id);
+      section.scriptPath = await fileStorage.saveScript(storyName, fileStorage.sanitizeSectionName(section.sectionName), section.script);
+      await this.discardAlignment(story, section);
+      assetTracker.refresh(story, section);
+    }
+
+    console.log(`🩹 Scripts repaired from story text: ${changed.length > 0 ? changed.join(', ') : 'none changed'}`);
+    return this.save(story);
+  }
+
+  /**
+   * Give sections ids 1..n and matching names, moving each section folder (and the
+   * number-suffixed audio file inside it) to the new name. Folders are parked under
+   * temporary names first so swaps don't collide.
+   */
+  private async renumber(story: StoryData): Promise<void> {
+    const storyName = this.getStoryName(story);
+    const storyDir = fileStorage.getStoryDirectory(storyName);
+    await fileStorage.ensureStoryDirectories(storyName);
+
+    const moves = story.sections.map((section, index) => {
+      const newName = `${storyName}_section_${index + 1}`;
+      return {
+        section,
+        newName,
+        oldFolder: section.sectionName ? fileStorage.sanitizeSectionName(section.sectionName) : null,
+        newFolder: fileStorage.sanitizeSectionName(newName),
+        oldAudioPath: section.audioPath,
+        parked: null as string | null,
+      };
+    });
+
+    for (const [index, move] of moves.entries()) {
+      if (!move.oldFolder || move.oldFolder === move.newFolder) continue;
+      const source = path.join(storyDir, move.oldFolder);
+      if (await fileStorage.fileExists(source)) {
+        move.parked = path.join(storyDir, `.renumber-${index}`);
+        await fs.rename(source, move.parked);
+      }
+    }
+
+    for (const move of moves) {
+      const { section, newName, newFolder } = move;
+      if (move.parked) {
+        const destination = path.join(storyDir, newFolder);
+        await fs.rm(destination, { recursive: true, force: true });
+        await fs.rename(move.parked, destination);
+      }
+
+      section.id = moves.indexOf(move) + 1;
+      section.sectionName = newName;
+
+      if (section.scriptPath) section.scriptPath = fileStorage.getScriptPath(storyName, newFolder);
+      if (section.narrationScriptPath) section.narrationScriptPath = fileStorage.getNarrationScriptPath(storyName, newFolder);
+      if (section.backgroundImagePath) section.backgroundImagePath = fileStorage.getBackgroundImagePath(storyName, newFolder);
+      if (section.videoPath) section.videoPath = fileStorage.getVideoPath(storyName, newFolder);
+      if (section.mixedAudioPath) section.mixedAudioPath = fileStorage.getMixedAudioPath(storyName, newFolder);
+
+      if (move.oldAudioPath) {
+        const audioPath = fileStorage.getAudioPath(storyName, newFolder);
+        const movedAudio = path.join(storyDir, newFolder, path.basename(move.oldAudioPath));
+        if (movedAudio !== audioPath && await fileStorage.fileExists(movedAudio)) {
+          await fs.rename(movedAudio, audioPath);
+        }
+        section.audioPath = audioPath;
+      }
+
+      // Every section keeps its script on disk, including newly created ones
+      section.scriptPath = await fileStorage.saveScript(storyName, newFolder, section.script);
+    }
+  }
+
+  /**
+   * Character timestamps belong to the old script text
+   */
+  private async discardAlignment(story: StoryData, section: StorySection): Promise<void> {
+    const sectionName = fileStorage.sanitizeSectionName(section.sectionName);
+    await fs.rm(fileStorage.getAlignmentPath(this.getStoryName(story), sectionName), { force: true });
+  }
+
+  private async loadEditableStory(storyId: string): Promise<StoryData> {
+    const story = await fileStorage.loadStoryData(storyId);
+    if (!story) {
+      throw new SectionEditError('Story not found', 404);
+    }
+    if (await jobQueue.hasActiveJob(storyId)) {
+      throw new SectionEditError('Story is being processed; try again when its jobs finish', 409);
+    }
+    return story;
+  }
+
+  private findSection(story: StoryData, sectionId: number): StorySection {
+    const section = story.sections.find(s => s.id === sectionId);
+    if (!section) {
+      throw new SectionEditError(`Section ${sectionId} not found`, 404);
+    }
+    return section;
+  }
+
+  private getStoryName(story: StoryData): string {
+    return story.storyName || fileStorage.sanitizeStoryName(story.originalFilename);
+  }
+
+  /**
+   * Persist edits, refresh captions and tell connected clients
+   */
+  private async save(story: StoryData): Promise<StoryData> {
+    // Edited scripts move in the story text
+    if (story.textContent) {
+      scriptAlignment.verify(story.textContent, story.sections);
+    }
+
+    await fileStorage.saveStoryData(story.id, story);
+    await captionService.writeCaptions(story);
+    storyEvents.emitSections(story);
+    return story;
+  }
+}
+
+export const sectionEditor = new SectionEditorService();
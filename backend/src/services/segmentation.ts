@@ -0,0 +1,108 @@
+import { config } from '@/config';
+import { AnalyzedSection } from '@/schemas/sections';
+import { SegmentationSettings } from '@/types';
+import { countWords, findSplitPoint } from '@/utils/storyChunker';
+
+export interface SegmentTarget {
+  min: number;
+  max: number;
+  target: number; // Count the prompt asks for
+}
+
+/**
+ * Applies config.segmentation (and per-story overrides) to story analysis: works out
+ * how many sections a story should have and corrects the model's section list by
+ * splitting or merging sections when it returns too few or too many.
+ */
+export class SegmentationService {
+  /**
+   * Config defaults with a story's overrides applied
+   */
+  resolve(overrides: Partial<SegmentationSettings> = {}): SegmentationSettings {
+    const defined = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+    const settings: SegmentationSettings = { ...config.segmentation, ...defined };
+
+    // An override on one bound may cross the other's default; the override wins
+    if (settings.minSegments > settings.maxSegments) {
+      if (overrides.minSegments !== undefined) {
+        settings.maxSegments = settings.minSegments;
+      } else {
+        settings.minSegments = settings.maxSegments;
+      }
+    }
+    return settings;
+  }
+
+  /**
+   * Allowed section counts for a story of the given length
+   */
+  getTarget(settings: SegmentationSettings, wordCount: number): SegmentTarget {
+    if (settings.fixedSegmentCount > 0) {
+      const count = settings.fixedSegmentCount;
+      return { min: count, max: count, target: count };
+    }
+
+    const byLength = Math.round(wordCount / Math.max(1, settings.wordsPerSegment));
+    const target = Math.min(settings.maxSegments, Math.max(settings.minSegments, byLength));
+    return { min: settings.minSegments, max: settings.maxSegments, target };
+  }
+
+  /**
+   * Bring a section list within the target's bounds. Too many: merge the adjacent
+   * pair with the fewest words. Too few: split the longest section at the sentence
+   * break nearest its middle. Deterministic, so a resumed job gets the same result.
+   */
+  enforce(sections: AnalyzedSection[], target: SegmentTarget): AnalyzedSection[] {
+    const result = sections.map(section => ({ ...section }));
+    const initial = result.length;
+
+    while (result.length > target.max) {
+      let best = 0;
+      for (let i = 1; i < result.length - 1; i++) {
+        if (this.pairWords(result, i) < this.pairWords(result, best)) best = i;
+      }
+      result.splice(best, 2, this.merge(result[best], result[best + 1]));
+    }
+
+    while (result.length < target.min) {
+      const candidates = result
+        .map((section, index) => ({ index, words: countWords(section.script) }))
+        .filter(({ index }) => findSplitPoint(result[index].script) !== null)
+        .sort((a, b) => b.words - a.words || a.index - b.index);
+
+      if (candidates.length === 0) {
+        console.warn(`⚠️  Story is too short for ${target.min} sections; keeping ${result.length}`);
+        break;
+      }
+      const index = candidates[0].index;
+      result.splice(index, 1, ...this.split(result[index]));
+    }
+
+    if (result.length !== initial) {
+      console.log(`ℹ️  Adjusted ${initial} sections to ${result.length} (allowed ${target.min}-${target.max})`);
+    }
+    return result;
+  }
+
+  private pairWords(sections: AnalyzedSection[], index: number): number {
+    return countWords(sections[index].script) + countWords(sections[index + 1].script);
+  }
+
+  private merge(first: AnalyzedSection, second: AnalyzedSection): AnalyzedSection {
+    return {
+      sceneDescription: `${first.sceneDescription} ${second.sceneDescription}`,
+      script: `${first.script}\n\n${second.script}`,
+      duration: first.duration && second.duration ? first.duration + second.duration : undefined,
+    };
+  }
+
+  private split(section: AnalyzedSection): AnalyzedSection[] {
+    const offset = findSplitPoint(section.script)!;
+    return [
+      { ...section, script: section.script.slice(0, offset).trim() },
+      { ...section, script: section.script.slice(offset).trim() },
+    ];
+  }
+}
+
+export const segmentation = new SegmentationService();
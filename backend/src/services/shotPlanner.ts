@@ -0,0 +1,88 @@
+import { config } from '@/config';
+import { planSectionClips } from '@/utils/clipPlanning';
+import { CAMERA_MOVES, SHOT_TYPES, generatedShotListSchema } from '@/schemas/shots';
+import { Shot, StoryData, StorySection } from '@/types';
+import { structuredOutput } from './structuredOutput';
+
+/**
+ * Breaks a section into an ordered shot list, one video clip per shot. The shots
+ * follow the section's clip plan, so together they cover its narration.
+ */
+export class ShotPlannerService {
+  /**
+   * Whether a section's video should be planned as shots: it has none yet and its
+   * narration is longer than one clip
+   */
+  needsShots(section: StorySection): boolean {
+    return config.video.planShots && !section.shots?.length && planSectionClips(section).length > 1;
+  }
+
+  /**
+   * Ask the text model for a shot list. Durations come from the clip plan; characters
+   * the story doesn't have are dropped.
+   */
+  async planShots(story: StoryData, section: StorySection): Promise<Shot[]> {
+    const clips = planSectionClips(section);
+    const characters = story.styleInfo?.characters ?? [];
+
+    const prompt = `
+You are storyboarding one scene of a children's story video. Break the scene into exactly ${clips.length} consecutive shots that together tell what happens in the script, in order.
+
+CHARACTERS:
+${characters.map(c => `- ${c.name}: ${c.description}`).join('\n') || '- (none)'}
+
+VISUAL STYLE: ${story.styleInfo?.visualStyle.cinematography ?? 'Storybook'}
+
+SCENE: ${section.sceneDescription}
+
+SCRIPT:
+${section.script}
+
+Shot lengths, in order: ${clips.map(seconds => `${seconds}s`).join(', ')}
+
+Return ONLY a JSON array of ${clips.length} shots, each an object with:
+- "shotType": one of ${SHOT_TYPES.map(type => `"${type}"`).join(', ')}
+- "cameraMove": one of ${CAMERA_MOVES.map(move => `"${move}"`).join(', ')}
+- "characters": names of the characters on screen, from the list above
+- "action": one or two sentences describing what is seen in the shot, with no narration or dialogue
+`;
+
+    const planned = await structuredOutput.generate(prompt, generatedShotListSchema.length(clips.length), {
+      label: 'Shot planning',
+      task: 'shots',
+      source: section.script,
+      count: clips.length,
+    });
+
+    const shots = planned.map((shot, index) => ({
+      ...shot,
+      characters: this.matchCharacters(story, shot.characters).known,
+      duration: clips[index],
+    }));
+    console.log(`🎞️  Planned ${shots.length} shots for ${section.sectionName}: ${shots.map(s => s.shotType).join(', ')}`);
+    return shots;
+  }
+
+  /**
+   * Story character names for the given names (matched ignoring case), and the names
+   * that aren't story characters
+   */
+  matchCharacters(story: StoryData, names: string[]): { known: string[]; unknown: string[] } {
+    const characters = story.styleInfo?.characters ?? [];
+    const known = new Set<string>();
+    const unknown: string[] = [];
+
+    for (const name of names) {
+      const character = characters.find(c => c.name.toLowerCase() === name.trim().toLowerCase());
+      if (character) {
+        known.add(character.name);
+      } else {
+        unknown.push(name);
+      }
+    }
+
+    return { known: [...known], unknown };
+  }
+}
+
+export const shotPlanner = new ShotPlannerService();
@@ -0,0 +1,124 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '@/config';
+import { fileStorage } from '@/utils/fileStorage';
+import { StoryData, StorySection } from '@/types';
+
+/**
+ * A segment as stored by the original pipeline, before sections had their own folders
+ */
+interface LegacySegment {
+  id: number;
+  sceneDescription?: string;
+  narration?: string;
+  script?: string;
+  caption?: string;
+  duration?: number;
+  status?: StorySection['status'];
+  error?: string;
+  videoPath?: string;
+}
+
+type LegacyStoryData = Omit<StoryData, 'storyName' | 'sections'> & {
+  storyName?: string;
+  sections?: StorySection[];
+  segments?: LegacySegment[];
+};
+
+/**
+ * One-time conversion of stories saved with the legacy `segments` list and the
+ * data/videos/<id>/ and data/images/<id>/ layout into `sections` with
+ * data/<storyName>/<section>/ folders. Stories without `segments` are left alone,
+ * so running it again is a no-op.
+ */
+export class StorageMigrationService {
+  /**
+   * Migrate every legacy story. Returns how many were converted.
+   */
+  async migrate(): Promise<number> {
+    const stories = await fileStorage.listStories() as unknown as LegacyStoryData[];
+    let migrated = 0;
+
+    for (const story of stories) {
+      if (!story.segments) continue;
+
+      try {
+        await this.migrateStory(story);
+        migrated++;
+      } catch (error) {
+        console.error(`Failed to migrate story ${story.id}:`, error);
+      }
+    }
+
+    return migrated;
+  }
+
+  private async migrateStory(legacy: LegacyStoryData): Promise<void> {
+    const storyName = legacy.storyName || fileStorage.sanitizeStoryName(legacy.originalFilename) || 'story';
+    const { segments = [], ...rest } = legacy;
+    const story: StoryData = { ...rest, storyName, sections: legacy.sections ?? [] };
+
+    // Sections are authoritative; segments only matter for stories that never had any
+    if (story.sections.length === 0 && segments.length > 0) {
+      story.sections = segments.map(segment => this.toSection(segment, storyName));
+    }
+
+    for (const section of story.sections) {
+      const folder = fileStorage.sanitizeSectionName(section.sectionName);
+      const segment = segments.find(s => s.id === section.id);
+
+      if (!section.scriptPath && section.script) {
+        section.scriptPath = await fileStorage.saveScript(storyName, folder, section.script);
+      }
+
+      if (!section.videoPath) {
+        const legacyVideo = await this.findExisting([
+          segment?.videoPath,
+          fileStorage.getVideoPathLegacy(story.id, section.id),
+        ]);
+        if (legacyVideo) {
+          section.videoPath = fileStorage.getVideoPath(storyName, folder);
+          await fileStorage.moveFile(legacyVideo, section.videoPath);
+        }
+      }
+
+      if (!section.backgroundImagePath) {
+        const legacyImage = await this.findExisting([fileStorage.getImagePathLegacy(story.id, section.id)]);
+        if (legacyImage) {
+          section.backgroundImagePath = fileStorage.getBackgroundImagePath(storyName, folder);
+          await fileStorage.moveFile(legacyImage, section.backgroundImagePath);
+        }
+      }
+    }
+
+    await fileStorage.saveStoryData(story.id, story);
+
+    // Remove the legacy folders once nothing is left in them (the reference image stays in images/)
+    for (const dir of [config.storage.videosDir, config.storage.imagesDir]) {
+      await fs.rmdir(path.join(dir, story.id)).catch(() => {});
+    }
+
+    console.log(`📦 Migrated story ${story.id} to the section layout (${story.sections.length} sections)`);
+  }
+
+  private toSection(segment: LegacySegment, storyName: string): StorySection {
+    return {
+      id: segment.id,
+      sectionName: `${storyName}_section_${segment.id}`,
+      sceneDescription: segment.sceneDescription || segment.caption || '',
+      script: segment.script || segment.narration || '',
+      duration: segment.duration,
+      status: segment.status || 'pending',
+      error: segment.error,
+    };
+  }
+
+  private async findExisting(paths: Array<string | undefined>): Promise<string | null> {
+    for (const filePath of paths) {
+      if (filePath && await fileStorage.fileExists(filePath)) return filePath;
+    }
+    return null;
+  }
+}
+
+export const storageMigration = new StorageMigrationService();
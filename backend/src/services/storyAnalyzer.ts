@@ -1,34 +1,135 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { config } from '@/config';
-import { StorySection, StoryStyle } from '@/types';
+import { providers } from '@/providers';
+import { AnalyzedSection, analyzedSectionsSchema } from '@/schemas/sections';
+import { ProvidedSection, SegmentationSettings, StorySection, StoryStyle } from '@/types';
+import { countWords, splitIntoChunks, StoryChunk } from '@/utils/storyChunker';
+import { estimateNarrationSeconds } from '@/utils/clipPlanning';
+import { segmentation, SegmentTarget } from './segmentation';
+import { structuredOutput } from './structuredOutput';
 
 export class StoryAnalyzerService {
-  private genAI: GoogleGenerativeAI;
 
-  constructor() {
-    this.genAI = new GoogleGenerativeAI(config.google.apiKey);
+  /**
+   * Analyze story text and break it into natural video sections with style context.
+   * Long stories are analyzed chunk by chunk, with the end of the previous chunk as
+   * context, and the sections numbered across the whole story. The section count is
+   * held to the segmentation settings: asked for in the prompt, then enforced.
+   */
+  async analyzeStory(
+    textContent: string,
+    styleInfo: StoryStyle,
+    storyName: string,
+    settings: SegmentationSettings = segmentation.resolve()
+  ): Promise<Omit<StorySection, 'status'>[]> {
+    // Build style context for better prompts
+    const styleContext = this.buildStyleContext(styleInfo);
+    const chunks = splitIntoChunks(textContent);
+    if (chunks.length > 1) {
+      console.log(`📚 Analyzing story in ${chunks.length} chunks`);
+    }
+
+    const totalWords = countWords(textContent);
+    const target = segmentation.getTarget(settings, totalWords);
+
+    const analyzed: AnalyzedSection[] = [];
+    for (const chunk of chunks) {
+      // Each chunk is asked for its share of the target, by length
+      const share = Math.max(1, Math.round(target.target * countWords(chunk.text) / Math.max(1, totalWords)));
+      const chunkSections = await structuredOutput.generate(
+        this.buildAnalysisPrompt(chunk, chunks.length, styleContext, storyName, this.describeCount(target, share, chunks.length, settings)),
+        analyzedSectionsSchema,
+        {
+          label: chunks.length > 1 ? `Story analysis (part ${chunk.index + 1}/${chunks.length})` : 'Story analysis',
+          task: 'sections',
+          source: chunk.text,
+        }
+      );
+      analyzed.push(...this.dropRepeatedSections(analyzed, chunkSections));
+    }
+
+    const sections = segmentation.enforce(analyzed, target);
+    console.log(`✓ Generated ${sections.length} sections`);
+
+    // Add IDs and defaults, numbering across chunks
+    return sections.map((section, index) => ({
+      id: index + 1,
+      sectionName: `${storyName}_section_${index + 1}`,
+      sceneDescription: section.sceneDescription,
+      script: section.script, // Direct text from story
+      duration: estimateNarrationSeconds(section.script), // Replaced by the measured narration length
+    }));
+  }
+
+  /**
+   * Sections supplied with the story, numbered and given defaults. A missing scene
+   * description falls back to the start of the script.
+   */
+  fromProvidedSections(provided: ProvidedSection[], storyName: string): Omit<StorySection, 'status'>[] {
+    return provided.map((section, index) => ({
+      id: index + 1,
+      sectionName: `${storyName}_section_${index + 1}`,
+      sceneDescription: section.sceneDescription || this.firstSentence(section.script),
+      script: section.script,
+      duration: section.duration || estimateNarrationSeconds(section.script),
+    }));
   }
 
+  private firstSentence(script: string): string {
+    const sentence = script.match(/^[\s\S]*?[.!?]["')\]]*(?=\s|$)/)?.[0] ?? script;
+    return sentence.length > 200 ? `${sentence.substring(0, 200)}…` : sentence;
+  }
 
   /**
-   * Analyze story text and break it into natural video sections with style context
+   * Section count instruction for the prompt
    */
-  async analyzeStory(textContent: string, styleInfo: StoryStyle, storyName: string): Promise<Omit<StorySection, 'status'>[]> {
-    const model = this.genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
+  private describeCount(target: SegmentTarget, share: number, chunkCount: number, settings: SegmentationSettings): string {
+    const whole = target.min === target.max
+      ? `exactly ${target.min} sections`
+      : `between ${target.min} and ${target.max} sections`;
 
-    // Build style context for better prompts
-    const styleContext = this.buildStyleContext(styleInfo);
-    
-    const prompt = `
+    if (chunkCount > 1) {
+      return `Create about ${share} sections for this part (the whole story is divided into ${whole} across all parts)`;
+    }
+    if (target.min === target.max) {
+      return `Create EXACTLY ${target.min} sections, placing the breaks at the story's most natural scene changes`;
+    }
+    return `Create ${whole} - about ${target.target} suits this story's length (roughly ${settings.wordsPerSegment} words per section). Within that range, follow the story's natural scene breaks`;
+  }
+
+  private buildAnalysisPrompt(
+    chunk: StoryChunk,
+    total: number,
+    styleContext: string,
+    storyName: string,
+    countRule: string
+  ): string {
+    const part = total > 1
+      ? `
+This is part ${chunk.index + 1} of ${total} of a longer story. Create sections ONLY for the text under "Story to analyze".${chunk.context ? `
+The text under "Previous context" ends the previous part and already has sections - use it to understand where the story is, but do not create sections for it.` : ''}
+`
+      : '';
+    // Imported documents keep their headings as "#" lines
+    const headings = /^#{1,6} /m.test(chunk.text)
+      ? `
+- Lines starting with "#" are chapter or section headings from the manuscript. Start a new section at each heading, and begin that section's script with the heading text without the "#" marks`
+      : '';
+    const context = chunk.context
+      ? `
+Previous context (do not create sections for this):
+${chunk.context}
+`
+      : '';
+
+    return `
 You are a children's story analyzer. Analyze the following children's story and break it down into natural sections based on the story's structure and pacing.
 
 IMPORTANT: 
 - This is a CHILDREN'S STORY - keep content appropriate and engaging for young audiences
 - Identify natural scene breaks in the story (e.g., when the setting changes, when a new action begins, when characters enter/exit)
 - Each section should be a complete, meaningful scene that can be visualized
-- Don't force a specific number of sections - let the story's natural structure determine this
+- ${countRule}${headings}
 - Focus ONLY on creating the story structure and scripts - no video/audio generation
-
+${part}
 STYLE CONTEXT:
 ${styleContext}
 
@@ -42,60 +143,39 @@ Format your response as a JSON array with this structure:
   {
     "sectionName": "${storyName}_section_1",
     "sceneDescription": "The story opens with a powerful lion in the jungle, establishing his dominance and the fear he instills in other animals",
-    "script": "Once upon a time, there was a powerful Lion who was the king of the jungle.",
-    "duration": 8
+    "script": "Once upon a time, there was a powerful Lion who was the king of the jungle."
   }
 ]
 
 IMPORTANT: The script field should contain ONLY the clean story text, no prefixes like "storyname_script_1:" or any other labels.
-
+${context}
 Story to analyze:
-${textContent}
+${chunk.text}
 
 IMPORTANT: 
-- Let the story's natural structure determine the number of sections
+- ${countRule}
 - Each section should be a complete, meaningful scene
 - Focus on creating engaging children's story content
 - Ensure good pacing - don't rush through the story or make scenes too sparse
 
 Return ONLY the JSON array with the section objects, no additional text or markdown.
 `;
+  }
 
-    try {
-      const result = await model.generateContent(prompt);
-      const response = result.response;
-      let text = response.text().trim();
-      
-      // Remove markdown code blocks if present
-      if (text.startsWith('```')) {
-        const match = text.match(/```(?:json)?\s*([\s\S]*?)```/);
-        if (match) {
-          text = match[1].trim();
-        }
-      }
-      
-      // Extract JSON array from response
-      const jsonMatch = text.match(/\[[\s\S]*\]/);
-      if (!jsonMatch) {
-        throw new Error('Could not extract JSON from AI response');
-      }
-
-      const sections = JSON.parse(jsonMatch[0]);
-      
-      console.log(`✓ Generated ${sections.length} sections`);
-      
-      // Add IDs and validate
-      return sections.map((section: any, index: number) => ({
-        id: index + 1,
-        sectionName: section.sectionName || `Section ${index + 1}`,
-        sceneDescription: section.sceneDescription || '',
-        script: section.script || '', // Direct text from story
-        duration: section.duration || 8, // Default duration
-      }));
-    } catch (error) {
-      console.error('Error analyzing story:', error);
-      throw new Error('Failed to analyze story content');
+  /**
+   * Sections at the start of a chunk that only repeat the overlap context, which
+   * the model sometimes turns into sections despite being told not to
+   */
+  private dropRepeatedSections(previous: AnalyzedSection[], next: AnalyzedSection[]): AnalyzedSection[] {
+    const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+    const recent = normalize(previous.slice(-3).map(section => section.script).join(' '));
+    if (!recent) return next;
+
+    const firstNew = next.findIndex(section => !recent.includes(normalize(section.script)));
+    if (firstNew > 0) {
+      console.log(`ℹ️  Dropped ${firstNew} section(s) repeating the previous chunk`);
     }
+    return firstNew === -1 ? [] : next.slice(firstNew);
   }
 
   /**
@@ -129,8 +209,6 @@ Return ONLY the JSON array with the section objects, no additional text or markd
    * Enhance a single scene prompt for better video generation
    */
   async enhancePrompt(originalPrompt: string, styleInfo?: StoryStyle): Promise<string> {
-    const model = this.genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
-
     let styleContext = '';
     if (styleInfo) {
       styleContext = `\nStyle Context:\n${this.buildStyleContext(styleInfo)}\n`;
@@ -147,9 +225,7 @@ Original prompt: ${originalPrompt}
 Enhanced prompt:`;
 
     try {
-      const result = await model.generateContent(prompt);
-      const response = result.response;
-      return response.text().trim();
+      return await providers.text.generateText(prompt, { task: 'prompt', source: originalPrompt });
     } catch (error) {
       console.error('Error enhancing prompt:', error);
       return originalPrompt; // Fallback to original
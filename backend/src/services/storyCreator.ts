@@ -0,0 +1,88 @@
+import fs from 'fs/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '@/config';
+import { fileStorage } from '@/utils/fileStorage';
+import { fileParser } from './fileParser';
+import { jobQueue } from './jobQueue';
+import { Job, ProvidedSection, SegmentationSettings, StoryData, StyleHints } from '@/types';
+
+export interface NewStory {
+  text: string;
+  originalFilename: string; // Shown in story lists; the folder name is derived from it (see claimStoryName)
+  currentStep?: string;
+  segmentation?: Partial<SegmentationSettings>;
+  styleHints?: StyleHints;
+  sections?: ProvidedSection[];
+}
+
+/**
+ * Creates stories from uploaded files or submitted text and queues their processing
+ */
+export class StoryCreatorService {
+  async createStory(input: NewStory): Promise<{ story: StoryData; job: Job }> {
+    const storyId = uuidv4();
+    const cleanedContent = fileParser.cleanContent(input.text);
+
+    const story: StoryData = {
+      id: storyId,
+      storyName: await this.claimStoryName(input.originalFilename, storyId),
+      originalFilename: input.originalFilename,
+      uploadedAt: new Date().toISOString(),
+      status: 'uploaded',
+      progress: 5,
+      currentStep: input.currentStep || 'Story received',
+      textContent: cleanedContent,
+      segmentation: this.definedOnly(input.segmentation),
+      styleHints: input.styleHints,
+      providedSections: input.sections,
+      sections: [],
+    };
+
+    // Save story data to local storage
+    await fileStorage.saveStoryData(storyId, story);
+
+    console.log(`Story ID: ${storyId}`);
+    console.log(`Content length: ${cleanedContent.length} characters`);
+
+    // Queue the processing pipeline; the job survives server restarts
+    // Flow: Text -> Extract Style -> Create Segments -> Generate Videos
+    const job = await jobQueue.enqueue('process-story', storyId);
+    return { story, job };
+  }
+
+  /**
+   * Folder name for a new story, derived from its filename. When another story uses the
+   * name or the folder already exists, part of the story id is added, so stories with
+   * the same title never share a folder. The folder is created to claim the name.
+   */
+  private async claimStoryName(originalFilename: string, storyId: string): Promise<string> {
+    const base = fileStorage.sanitizeStoryName(originalFilename) || 'story';
+    if (!await fileStorage.isStoryNameInUse(base) && await this.createStoryFolder(base)) {
+      return base;
+    }
+
+    const unique = `${base}-${storyId.slice(0, 8)}`;
+    await fs.mkdir(fileStorage.getStoryDirectory(unique), { recursive: true });
+    return unique;
+  }
+
+  /**
+   * Create data/<storyName>/, or return false if it already exists
+   */
+  private async createStoryFolder(storyName: string): Promise<boolean> {
+    await fs.mkdir(config.storage.dataDir, { recursive: true });
+    try {
+      await fs.mkdir(fileStorage.getStoryDirectory(storyName));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') return false;
+      throw error;
+    }
+  }
+
+  private definedOnly<T extends object>(values?: T): T | undefined {
+    return values && Object.values(values).some(value => value !== undefined) ? values : undefined;
+  }
+}
+
+export const storyCreator = new StoryCreatorService();
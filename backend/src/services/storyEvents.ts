@@ -0,0 +1,95 @@
+import { EventEmitter } from 'events';
+import { StoryData, StorySection } from '@/types';
+
+export type StoryEvent =
+  | {
+      type: 'status';
+      storyId: string;
+      status: StoryData['status'];
+      progress: number;
+      currentStep?: string;
+      error?: string;
+      timestamp: string;
+    }
+  | {
+      type: 'section';
+      storyId: string;
+      section: StorySection;
+      timestamp: string;
+    }
+  | {
+      type: 'sections';
+      storyId: string;
+      sections: StorySection[];
+      timestamp: string;
+    };
+
+export type StoryEventListener = (event: StoryEvent) => void;
+
+/**
+ * In-process publish/subscribe channel for story progress.
+ * The realtime server forwards these events to connected clients.
+ */
+export class StoryEventsService {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per connected client, so don't warn at the default limit of 10
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Publish the current status of a story
+   */
+  emitStatus(story: StoryData): void {
+    this.emit({
+      type: 'status',
+      storyId: story.id,
+      status: story.status,
+      progress: story.progress,
+      currentStep: story.currentStep,
+      error: story.error,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Publish a change to a single section (status or generated asset paths)
+   */
+  emitSection(storyId: string, section: StorySection): void {
+    this.emit({
+      type: 'section',
+      storyId,
+      section,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Publish the full section list after sections are added, removed or renumbered
+   */
+  emitSections(story: StoryData): void {
+    this.emit({
+      type: 'sections',
+      storyId: story.id,
+      sections: story.sections,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Listen to events for one story. Returns an unsubscribe function.
+   */
+  subscribe(storyId: string, listener: StoryEventListener): () => void {
+    this.emitter.on(storyId, listener);
+    return () => {
+      this.emitter.off(storyId, listener);
+    };
+  }
+
+  private emit(event: StoryEvent): void {
+    this.emitter.emit(event.storyId, event);
+  }
+}
+
+export const storyEvents = new StoryEventsService();
@@ -0,0 +1,129 @@
+import { z } from 'zod';
+import { config } from '@/config';
+import { providers, TextGenerationOptions } from '@/providers';
+
+// Longest previous response echoed back in a repair prompt
+const MAX_ECHOED_RESPONSE = 4000;
+
+export class StructuredOutputError extends Error {
+  constructor(
+    public readonly label: string,
+    public readonly attempts: number,
+    public readonly issues: string[]
+  ) {
+    super(`${label} failed after ${attempts} attempts: ${issues.slice(0, 3).join('; ')}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+export interface StructuredOutputOptions extends Omit<TextGenerationOptions, 'json'> {
+  /** Human readable name of the request, used in logs and errors (e.g., "Style extraction") */
+  label: string;
+}
+
+type ParseResult<T> = { ok: true; value: T } | { ok: false; issues: string[] };
+
+/**
+ * Strip markdown fences and surrounding prose, returning the JSON text
+ */
+function extractJson(text: string): string {
+  let jsonText = text.trim();
+
+  const fenced = jsonText.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) {
+    jsonText = fenced[1].trim();
+  }
+
+  if (!jsonText.startsWith('{') && !jsonText.startsWith('[')) {
+    const start = jsonText.search(/[[{]/);
+    const end = Math.max(jsonText.lastIndexOf('}'), jsonText.lastIndexOf(']'));
+    if (start >= 0 && end > start) {
+      jsonText = jsonText.substring(start, end + 1);
+    }
+  }
+
+  return jsonText;
+}
+
+/**
+ * Requests JSON from the text model and validates it against a zod schema.
+ * Invalid responses are sent back to the model with the validation errors
+ * so it can repair them, up to config.structuredOutput.maxAttempts in total.
+ */
+export class StructuredOutputService {
+  async generate<T extends z.ZodTypeAny>(
+    prompt: string,
+    schema: T,
+    options: StructuredOutputOptions
+  ): Promise<z.infer<T>> {
+    const { label, ...textOptions } = options;
+    const maxAttempts = Math.max(1, config.structuredOutput.maxAttempts);
+    let currentPrompt = prompt;
+    let issues: string[] = [];
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      let response: string;
+      try {
+        response = await providers.text.generateText(currentPrompt, { ...textOptions, json: true });
+      } catch (error) {
+        // The request itself failed; try the same prompt again
+        issues = [`request failed: ${error instanceof Error ? error.message : String(error)}`];
+        console.warn(`⚠️  ${label}: attempt ${attempt}/${maxAttempts} failed (${issues[0]})`);
+        continue;
+      }
+
+      const result = this.parse(response, schema);
+      if (result.ok) {
+        if (attempt > 1) {
+          console.log(`✓ ${label}: valid response after ${attempt} attempts`);
+        }
+        return result.value;
+      }
+
+      issues = result.issues;
+      console.warn(`⚠️  ${label}: attempt ${attempt}/${maxAttempts} returned invalid JSON: ${issues.join('; ')}`);
+      currentPrompt = this.buildRepairPrompt(prompt, response, issues);
+    }
+
+    throw new StructuredOutputError(label, maxAttempts, issues);
+  }
+
+  private parse<T extends z.ZodTypeAny>(response: string, schema: T): ParseResult<z.infer<T>> {
+    let data: unknown;
+    try {
+      data = JSON.parse(extractJson(response));
+    } catch (error) {
+      return { ok: false, issues: [`not valid JSON (${error instanceof Error ? error.message : 'parse error'})`] };
+    }
+
+    const result = schema.safeParse(data);
+    if (result.success) {
+      return { ok: true, value: result.data };
+    }
+
+    return {
+      ok: false,
+      issues: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+    };
+  }
+
+  /**
+   * Original request plus the rejected response and what was wrong with it
+   */
+  private buildRepairPrompt(prompt: string, response: string, issues: string[]): string {
+    return `${prompt}
+
+Your previous response could not be used because it did not match the required JSON structure.
+
+Problems found:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Previous response:
+${response.substring(0, MAX_ECHOED_RESPONSE)}
+
+Return ONLY the corrected JSON, no additional text or markdown.
+`;
+  }
+}
+
+export const structuredOutput = new StructuredOutputService();
@@ -0,0 +1,131 @@
+import { fileStorage } from '@/utils/fileStorage';
+import { storyStyleSchema, StoryCharacter, StoryStylePatch, VoiceCastingPatch } from '@/schemas/style';
+import { assetTracker } from './assetTracker';
+import { jobQueue } from './jobQueue';
+import { storyEvents } from './storyEvents';
+import { voiceCasting } from './voiceCasting';
+import { StoryData, StoryStyle } from '@/types';
+
+export class StyleEditError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'StyleEditError';
+  }
+}
+
+/**
+ * Corrections to the extracted style bible and the story's voice casting. Prompts read
+ * story.styleInfo when they are built, so edits apply to every asset generated afterwards;
+ * assets made with the old style or voices are marked stale.
+ */
+export class StyleEditorService {
+  /**
+   * Replace the whole style
+   */
+  async replaceStyle(storyId: string, style: StoryStyle): Promise<StoryData> {
+    return this.update(storyId, () => style, false);
+  }
+
+  /**
+   * Merge a partial update into the current style
+   */
+  async patchStyle(storyId: string, patch: StoryStylePatch): Promise<StoryData> {
+    return this.update(storyId, current => ({
+      characters: patch.characters ?? current.characters,
+      setting: { ...current.setting, ...patch.setting },
+      visualStyle: { ...current.visualStyle, ...patch.visualStyle },
+    }));
+  }
+
+  async addCharacter(storyId: string, character: StoryCharacter): Promise<StoryData> {
+    return this.update(storyId, current => {
+      if (this.findCharacterIndex(current, character.name) >= 0) {
+        throw new StyleEditError(`Character "${character.name}" already exists`, 409);
+      }
+      return { ...current, characters: [...current.characters, character] };
+    });
+  }
+
+  async removeCharacter(storyId: string, name: string): Promise<StoryData> {
+    return this.update(storyId, current => {
+      const index = this.findCharacterIndex(current, name);
+      if (index < 0) {
+        throw new StyleEditError(`Character "${name}" not found`, 404);
+      }
+      return { ...current, characters: current.characters.filter((_, i) => i !== index) };
+    });
+  }
+
+  /**
+   * Change who voices the narrator or characters. Narration read by a recast voice becomes stale.
+   */
+  async castVoices(storyId: string, patch: VoiceCastingPatch): Promise<StoryData> {
+    return this.edit(storyId, story => {
+      // Start from the resolved casting so automatic choices don't move when others are recast
+      const casting = voiceCasting.resolve(story);
+      if (patch.narrator) casting.narrator = patch.narrator;
+
+      for (const [name, voiceId] of Object.entries(patch.characters ?? {})) {
+        const index = story.styleInfo ? this.findCharacterIndex(story.styleInfo, name) : -1;
+        if (index < 0) {
+          throw new StyleEditError(`Character "${name}" not found`, 404);
+        }
+        const character = story.styleInfo!.characters[index].name;
+        if (voiceId) {
+          casting.characters[character] = voiceId;
+        } else {
+          delete casting.characters[character];
+        }
+      }
+
+      story.voiceCasting = casting;
+      console.log(`🎙️  Voices cast for ${story.originalFilename} (narrator ${casting.narrator})`);
+    });
+  }
+
+  private findCharacterIndex(style: StoryStyle, name: string): number {
+    return style.characters.findIndex(c => c.name.toLowerCase() === name.trim().toLowerCase());
+  }
+
+  private async update(
+    storyId: string,
+    change: (current: StoryStyle) => StoryStyle,
+    requireExisting = true
+  ): Promise<StoryData> {
+    return this.edit(storyId, story => {
+      if (requireExisting && !story.styleInfo) {
+        throw new StyleEditError('Style information not yet extracted', 404);
+      }
+
+      story.styleInfo = storyStyleSchema.parse(change(story.styleInfo!));
+      console.log(`🎨 Style updated for ${story.originalFilename} (${story.styleInfo.characters.length} characters)`);
+    });
+  }
+
+  /**
+   * Apply a change to a story that isn't being processed and mark the assets it made stale
+   */
+  private async edit(storyId: string, apply: (story: StoryData) => void): Promise<StoryData> {
+    const story = await fileStorage.loadStoryData(storyId);
+    if (!story) {
+      throw new StyleEditError('Story not found', 404);
+    }
+    if (await jobQueue.hasActiveJob(storyId)) {
+      throw new StyleEditError('Story is being processed; try again when its jobs finish', 409);
+    }
+
+    // Record what existing assets were made from before anything changes
+    story.sections.forEach(section => assetTracker.adoptBaseline(story, section));
+    assetTracker.adoptReferenceBaseline(story);
+
+    apply(story);
+
+    story.sections.forEach(section => assetTracker.refresh(story, section));
+    await fileStorage.saveStoryData(storyId, story);
+    storyEvents.emitSections(story);
+
+    return story;
+  }
+}
+
+export const styleEditor = new StyleEditorService();
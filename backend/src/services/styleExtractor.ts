@@ -1,26 +1,81 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { config } from '@/config';
-import { StoryStyle } from '@/types';
+import { generatedStyleSchema } from '@/schemas/style';
+import { StoryStyle, StyleHints } from '@/types';
+import { splitIntoChunks, StoryChunk } from '@/utils/storyChunker';
+import { structuredOutput } from './structuredOutput';
+
+type StoryCharacter = StoryStyle['characters'][number];
+
+const normalizeName = (name: string) =>
+  name.toLowerCase().replace(/^(the|a|an)\s+/, '').replace(/[^a-z0-9\s]/g, '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Whether two extracted names refer to the same character: equal once normalized,
+ * or one is a whole-word part of the other ("Tom" and "Tom Sawyer")
+ */
+function isSameCharacter(a: string, b: string): boolean {
+  const first = normalizeName(a);
+  const second = normalizeName(b);
+  if (!first || !second) return false;
+  if (first === second) return true;
+  const [shorter, longer] = first.length < second.length ? [first, second] : [second, first];
+  return ` ${longer} `.includes(` ${shorter} `);
+}
+
+const longest = (a: string, b: string) => (b.length > a.length ? b : a);
 
 export class StyleExtractorService {
-  private genAI: GoogleGenerativeAI;
+  /**
+   * Extract characters, setting, and visual style from story text. Long stories
+   * are extracted chunk by chunk and the results merged.
+   */
+  async extractStyleInfo(textContent: string): Promise<StoryStyle> {
+    const chunks = splitIntoChunks(textContent);
+    if (chunks.length === 1) {
+      return this.extractChunk(chunks[0], 1, []);
+    }
+
+    console.log(`📚 Extracting style from ${chunks.length} chunks`);
+    let merged: StoryStyle | null = null;
+    for (const chunk of chunks) {
+      // Later chunks are told the names found so far, so they reuse them
+      const style = await this.extractChunk(chunk, chunks.length, merged?.characters.map(c => c.name) ?? []);
+      merged = merged ? this.mergeStyles(merged, style) : style;
+    }
 
-  constructor() {
-    this.genAI = new GoogleGenerativeAI(config.google.apiKey);
+    console.log(`✓ Merged style: ${merged!.characters.length} characters`);
+    return merged!;
   }
 
   /**
-   * Extract characters, setting, and visual style from story text
+   * Apply style hints over an extracted style: hinted characters replace extracted
+   * ones with the same name (or are added), setting and visual style fields override
    */
-  async extractStyleInfo(textContent: string): Promise<StoryStyle> {
-    const model = this.genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
+  applyHints(style: StoryStyle, hints: StyleHints): StoryStyle {
+    const characters = style.characters.filter(character =>
+      !hints.characters?.some(hint => isSameCharacter(hint.name, character.name))
+    );
+
+    return {
+      characters: [...characters, ...(hints.characters ?? [])],
+      setting: { ...style.setting, ...hints.setting },
+      visualStyle: { ...style.visualStyle, ...hints.visualStyle },
+    };
+  }
+
+  private async extractChunk(chunk: StoryChunk, total: number, knownCharacters: string[]): Promise<StoryStyle> {
+    const part = total > 1
+      ? `\nThis is part ${chunk.index + 1} of ${total} of a longer story. Describe only what this part shows; characters who do not appear in it can be left out.\n`
+      : '';
+    const known = knownCharacters.length > 0
+      ? `\nCharacters already identified in earlier parts (use exactly these names if they appear): ${knownCharacters.join(', ')}\n`
+      : '';
 
     const prompt = `
 You are a story analysis AI. Analyze the following story and extract detailed information about:
 1. All main characters (names, descriptions, physical traits)
 2. Setting information (location, time period, atmosphere)
 3. Visual style suggestions for video generation (art style, color palette, cinematography)
-
+${part}${known}
 Format your response as a JSON object with this EXACT structure:
 {
   "characters": [
@@ -43,63 +98,49 @@ Format your response as a JSON object with this EXACT structure:
 }
 
 Story to analyze:
-${textContent}
+${chunk.text}
 
 Return ONLY the JSON object, no additional text or markdown.
 `;
 
-    try {
-      const result = await model.generateContent(prompt);
-      const response = result.response;
-      const text = response.text();
-      
-      // Extract JSON from response (handle markdown code blocks)
-      let jsonText = text.trim();
-      
-      // Remove markdown code blocks if present
-      if (jsonText.startsWith('```')) {
-        const match = jsonText.match(/```(?:json)?\s*([\s\S]*?)```/);
-        if (match) {
-          jsonText = match[1].trim();
-        }
+    // Invalid output is repaired or retried; a style that still fails fails the story
+    return structuredOutput.generate(prompt, generatedStyleSchema, {
+      label: total > 1 ? `Style extraction (part ${chunk.index + 1}/${total})` : 'Style extraction',
+      task: 'style',
+      source: chunk.text,
+    });
+  }
+
+  /**
+   * Combine a later chunk's style into the style so far. Characters are matched by
+   * name and keep the most detailed description; new locations are appended. Time
+   * period, atmosphere and visual style come from the opening of the story.
+   */
+  private mergeStyles(base: StoryStyle, next: StoryStyle): StoryStyle {
+    const characters: StoryCharacter[] = base.characters.map(c => ({ ...c }));
+
+    for (const character of next.characters) {
+      const existing = characters.find(c => isSameCharacter(c.name, character.name));
+      if (!existing) {
+        characters.push({ ...character });
+        continue;
       }
-      
-      const styleInfo = JSON.parse(jsonText);
-      
-      // Validate and set defaults
-      return {
-        characters: styleInfo.characters || [],
-        setting: {
-          location: styleInfo.setting?.location || 'Generic location',
-          timeperiod: styleInfo.setting?.timeperiod || 'Contemporary',
-          atmosphere: styleInfo.setting?.atmosphere || 'Neutral',
-        },
-        visualStyle: {
-          artStyle: styleInfo.visualStyle?.artStyle || 'Cinematic realistic',
-          colorPalette: styleInfo.visualStyle?.colorPalette || 'Natural colors',
-          cinematography: styleInfo.visualStyle?.cinematography || 'Dynamic camera work',
-        },
-      };
-    } catch (error) {
-      console.error('Error extracting style info:', error);
-      
-      // Return default style info on error
-      return {
-        characters: [],
-        setting: {
-          location: 'Generic location',
-          timeperiod: 'Contemporary',
-          atmosphere: 'Neutral',
-        },
-        visualStyle: {
-          artStyle: 'Cinematic realistic',
-          colorPalette: 'Natural colors',
-          cinematography: 'Dynamic camera work',
-        },
-      };
+      existing.name = longest(existing.name, character.name);
+      existing.description = longest(existing.description, character.description);
+      existing.physicalTraits = longest(existing.physicalTraits, character.physicalTraits);
+    }
+
+    const locations = base.setting.location.split('; ');
+    if (!locations.some(location => location.toLowerCase() === next.setting.location.toLowerCase())) {
+      locations.push(next.setting.location);
     }
+
+    return {
+      characters,
+      setting: { ...base.setting, location: locations.join('; ') },
+      visualStyle: base.visualStyle,
+    };
   }
 }
 
 export const styleExtractor = new StyleExtractorService();
-
@@ -1,58 +1,69 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { config } from '@/config';
+import fs from 'fs/promises';
+import path from 'path';
+import { providers } from '@/providers';
 import { fileStorage } from '@/utils/fileStorage';
-import { geminiVeo } from './geminiVeo';
-import { StorySection, StoryStyle } from '@/types';
+import { concatMedia, extractLastFrame } from '@/utils/ffmpeg';
+import { planSectionClips, splitScriptForClips } from '@/utils/clipPlanning';
+import { GeminiVeoRequest, Shot, StorySection, StoryStyle } from '@/types';
 
-export class VideoService {
-  private genAI: GoogleGenerativeAI;
-
-  constructor() {
-    this.genAI = new GoogleGenerativeAI(config.google.apiKey);
-  }
+/**
+ * One clip of a section's video
+ */
+interface ClipRequest {
+  script?: string; // The part of the narration the clip plays under, for sections without a shot list
+  shot?: Shot;
+  seconds: number;
+  index: number;
+  count: number;
+}
 
+export class VideoService {
   /**
-   * Generate video for a section using Gemini Veo
+   * Generate video for a section using the configured video provider: one clip per shot
+   * of its shot list, or without one, clips covering its narration (see planSectionClips).
+   * Each clip continues from the last frame of the one before; they're joined into the section's video.
+   * A seed image (PNG) becomes the first frame, keeping characters and setting consistent.
    */
   async generateVideo(
     section: StorySection, 
     storyName: string, 
-    styleInfo: StoryStyle
+    styleInfo: StoryStyle,
+    seedImagePath?: string | null
   ): Promise<string> {
     try {
       const sectionName = fileStorage.sanitizeSectionName(section.sectionName);
-      
-      // Generate video prompt based on scene description
-      const videoPrompt = await this.generateVideoPrompt(section, styleInfo);
-      
-      console.log(`🎬 Generating video for section: ${section.sectionName}`);
-      console.log(`Video prompt: ${videoPrompt.substring(0, 100)}...`);
-      
-      // Generate video using Gemini Veo
-      const veoRequest = {
-        prompt: videoPrompt,
-        duration: section.duration || 8,
-        aspectRatio: '16:9' as const,
-        model: 'veo-3.0-generate-001' as const,
-      };
-
-      const videoResult = await geminiVeo.generateVideoWithRetry(
-        veoRequest,
-        storyName, // Using storyName as ID for now
-        section.id,
-        config.veo.maxRetries
-      );
-
-      if (videoResult.success && videoResult.videoPath) {
-        // Copy video from legacy location to new folder structure
-        const fs = await import('fs/promises');
-        const videoData = await fs.readFile(videoResult.videoPath);
-        const videoPath = await fileStorage.saveVideo(storyName, sectionName, videoData);
-        console.log(`✓ Video generated successfully: ${videoPath}`);
-        return videoPath;
+      const clips = this.planClipRequests(section);
+
+      console.log(`🎬 Generating video for section: ${section.sectionName} (${clips.map(c => `${c.seconds}s`).join(' + ')})`);
+
+      await fileStorage.ensureStoryDirectories(storyName, sectionName);
+      const videoPath = fileStorage.getVideoPath(storyName, sectionName);
+      const clipsDir = path.dirname(fileStorage.getClipPath(storyName, sectionName, 1));
+      await fs.rm(clipsDir, { recursive: true, force: true });
+
+      if (clips.length === 1) {
+        // Generate video straight into the section folder
+        await this.generateClip(section, styleInfo, clips[0], seedImagePath, videoPath);
       } else {
-        throw new Error(videoResult.error || 'Video generation failed');
+        await fs.mkdir(clipsDir, { recursive: true });
+        const clipPaths: string[] = [];
+        let seed = seedImagePath;
+
+        for (const [index, clip] of clips.entries()) {
+          const clipPath = fileStorage.getClipPath(storyName, sectionName, index + 1);
+          await this.generateClip(section, styleInfo, clip, seed, clipPath);
+          clipPaths.push(clipPath);
+
+          if (index < clips.length - 1) {
+            seed = await this.lastFrameOf(clipPath, seedImagePath);
+          }
+        }
+
+        await this.joinClips(clipPaths, videoPath);
       }
+
+      console.log(`✓ Video generated successfully: ${videoPath}`);
+      return videoPath;
     } catch (error) {
       console.error('Error generating video:', error);
       throw new Error('Failed to generate video');
@@ -60,13 +71,79 @@ export class VideoService {
   }
 
   /**
-   * Generate video prompt based on section and style
+   * The clips to generate: the section's shots, else its clip plan with the script split between the clips
    */
-  private async generateVideoPrompt(section: StorySection, styleInfo: StoryStyle): Promise<string> {
-    const model = this.genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
+  private planClipRequests(section: StorySection): ClipRequest[] {
+    if (section.shots?.length) {
+      return section.shots.map((shot, index, shots) => ({ shot, seconds: shot.duration, index, count: shots.length }));
+    }
+
+    const clips = planSectionClips(section);
+    const scripts = splitScriptForClips(section.script, clips);
+    return clips.map((seconds, index) => ({ script: scripts[index], seconds, index, count: clips.length }));
+  }
+
+  private async generateClip(
+    section: StorySection,
+    styleInfo: StoryStyle,
+    clip: ClipRequest,
+    seedImagePath: string | null | undefined,
+    outputPath: string
+  ): Promise<void> {
+    // Generate video prompt based on scene description
+    const videoPrompt = await this.generateVideoPrompt(section, styleInfo, clip);
+    console.log(`Video prompt${clip.count > 1 ? ` (clip ${clip.index + 1}/${clip.count})` : ''}: ${videoPrompt.substring(0, 100)}...`);
+
+    const veoRequest: GeminiVeoRequest = {
+      prompt: videoPrompt,
+      duration: clip.seconds,
+      aspectRatio: '16:9',
+      model: 'veo-3.0-generate-001',
+    };
+    if (seedImagePath) {
+      const image = await fs.readFile(seedImagePath);
+      veoRequest.image = { imageBytes: image.toString('base64'), mimeType: 'image/png' };
+      console.log(`Seed image: ${seedImagePath}`);
+    }
+
+    await providers.video.generateVideo(veoRequest, outputPath);
+  }
 
+  /**
+   * The last frame of a clip, to start the next clip from, or the fallback seed when
+   * it can't be extracted (requires ffmpeg)
+   */
+  private async lastFrameOf(clipPath: string, fallback: string | null | undefined): Promise<string | null | undefined> {
+    const framePath = clipPath.replace(/\.mp4$/, '-last.png');
+    try {
+      await extractLastFrame(clipPath, framePath);
+      return framePath;
+    } catch (error) {
+      console.warn('⚠️  Could not extract the last frame, seeding the next clip with the section image:', error instanceof Error ? error.message : error);
+      return fallback;
+    }
+  }
+
+  /**
+   * Join the clips into the section video. Without ffmpeg only the first clip is kept,
+   * and the movie loops or stretches it over the narration.
+   */
+  private async joinClips(clipPaths: string[], videoPath: string): Promise<void> {
+    try {
+      await concatMedia(clipPaths, videoPath);
+    } catch (error) {
+      console.warn('⚠️  Could not join clips, using the first one:', error instanceof Error ? error.message : error);
+      await fs.copyFile(clipPaths[0], videoPath);
+    }
+  }
+
+  /**
+   * Generate video prompt based on section and style
+   */
+  private async generateVideoPrompt(section: StorySection, styleInfo: StoryStyle, clip: ClipRequest): Promise<string> {
     // Build style context
     const styleContext = this.buildStyleContext(styleInfo);
+    const shot = this.describeShot(clip);
     
     const prompt = `
 You are a children's story video generator. Create a detailed prompt for generating a video for this section.
@@ -76,28 +153,54 @@ ${styleContext}
 
 SECTION DETAILS:
 - Scene: ${section.sceneDescription}
-- Script: ${section.script}
+- Script: ${section.script}${shot}
 
 Create a video generation prompt that:
 - Is suitable for children's stories
 - Shows the scene with sound effects only (NO narration/voice)
 - Matches the visual style from the context
 - Is engaging and colorful for young audiences
-- Includes specific camera angles, lighting, and movement
-- Is 8 seconds long
+- ${clip.shot ? 'Uses the shot type and camera move above, with specific lighting' : 'Includes specific camera angles, lighting, and movement'}
+- Is ${clip.seconds} seconds long
 
 Return ONLY the video generation prompt, no additional text.
 `;
 
     try {
-      const result = await model.generateContent(prompt);
-      return result.response.text().trim();
+      return await providers.text.generateText(prompt, {
+        task: 'prompt',
+        source: clip.shot?.action ?? (clip.count > 1 ? clip.script : section.sceneDescription),
+      });
     } catch (error) {
       console.error('Error generating video prompt:', error);
-      return section.sceneDescription; // Fallback
+      // Fallback
+      if (clip.shot) {
+        return `${section.sceneDescription} ${clip.shot.shotType} shot, ${clip.shot.cameraMove} camera: ${clip.shot.action}`;
+      }
+      return clip.count > 1 ? `${section.sceneDescription} ${clip.script}` : section.sceneDescription;
     }
   }
 
+  /**
+   * Prompt lines for one clip of a multi-clip section, or for a planned shot
+   */
+  private describeShot(clip: ClipRequest): string {
+    const continues = clip.index > 0 ? ' It continues directly from the previous shot.' : '';
+
+    if (clip.shot) {
+      const { shotType, cameraMove, characters, action } = clip.shot;
+      return `\n- This is shot ${clip.index + 1} of ${clip.count} for the scene.${continues}`
+        + `\n- Shot type: ${shotType}`
+        + `\n- Camera move: ${cameraMove}`
+        + `\n- Characters on screen: ${characters.join(', ') || 'none'}`
+        + `\n- Action: ${action}`;
+    }
+
+    return clip.count > 1
+      ? `\n- This is shot ${clip.index + 1} of ${clip.count} for the scene.${continues} It plays under this part of the narration: ${clip.script}`
+      : '';
+  }
+
   /**
    * Build style context string for prompt generation
    */
@@ -0,0 +1,98 @@
+import { config } from '@/config';
+import { splitDialogue } from '@/utils/dialogue';
+import { maskNarrationMarkup } from '@/utils/narrationMarkup';
+import { StoryData, StorySection, VoiceCasting } from '@/types';
+
+export interface VoicePart {
+  text: string;
+  voiceId: string;
+}
+
+/**
+ * Who voices what: a narrator voice plus one voice per character, stored on the
+ * story. Characters nobody has cast get a voice from config.elevenlabs.characterVoiceIds,
+ * preferring ones not already in use.
+ */
+export class VoiceCastingService {
+  /**
+   * The story's casting with every current character assigned a voice
+   */
+  resolve(story: StoryData): VoiceCasting {
+    const stored = story.voiceCasting;
+    const narrator = stored?.narrator || config.elevenlabs.voiceId;
+    const names = story.styleInfo?.characters.map(c => c.name) ?? [];
+    const characters: Record<string, string> = {};
+
+    for (const name of names) {
+      if (stored?.characters[name]) characters[name] = stored.characters[name];
+    }
+
+    const pool = config.elevenlabs.characterVoiceIds.filter(id => id !== narrator);
+    const taken = new Set(Object.values(characters));
+    let reused = 0;
+    for (const name of names) {
+      if (characters[name]) continue;
+      const free = pool.find(id => !taken.has(id));
+      characters[name] = free ?? pool[reused++ % pool.length] ?? narrator;
+      taken.add(characters[name]);
+    }
+
+    return { narrator, characters };
+  }
+
+  /**
+   * Store the resolved casting, so automatic choices stay put when characters change.
+   * Returns whether anything was added.
+   */
+  castMissing(story: StoryData): boolean {
+    const casting = this.resolve(story);
+    const changed = !story.voiceCasting
+      || casting.narrator !== story.voiceCasting.narrator
+      || Object.keys(casting.characters).some(name => story.voiceCasting!.characters[name] !== casting.characters[name]);
+
+    story.voiceCasting = { narrator: casting.narrator, characters: { ...story.voiceCasting?.characters, ...casting.characters } };
+    return changed;
+  }
+
+  /**
+   * Narration text (a section's script or its narration script) split into consecutive
+   * runs read by the same voice. Markup is kept with the run it falls in.
+   */
+  getVoiceParts(story: StoryData, text: string, casting = this.resolve(story)): VoicePart[] {
+    const lines = splitDialogue(maskNarrationMarkup(text), Object.keys(casting.characters));
+    const parts: VoicePart[] = [];
+    let offset = 0;
+
+    for (const line of lines) {
+      const voiceId = line.speaker ? casting.characters[line.speaker] : casting.narrator;
+      const previous = parts[parts.length - 1];
+      const original = text.slice(offset, offset + line.text.length);
+      offset += line.text.length;
+
+      // Runs of punctuation and pauses between quotes aren't worth a request of their own
+      if (previous && (previous.voiceId === voiceId || !/[\p{L}\p{N}]/u.test(line.text))) {
+        previous.text += original;
+      } else {
+        parts.push({ text: original, voiceId });
+      }
+    }
+
+    return parts;
+  }
+
+  /**
+   * Voices of the characters who speak in a section, where they differ from the narrator
+   */
+  getSectionCharacterVoices(story: StoryData, section: StorySection): Record<string, string> {
+    const casting = this.resolve(story);
+    const voices: Record<string, string> = {};
+    for (const line of splitDialogue(section.script, Object.keys(casting.characters))) {
+      if (line.speaker && casting.characters[line.speaker] !== casting.narrator) {
+        voices[line.speaker] = casting.characters[line.speaker];
+      }
+    }
+    return voices;
+  }
+}
+
+export const voiceCasting = new VoiceCastingService();
@@ -5,20 +5,62 @@ export interface StorySection {
   sectionName: string; // e.g., "storyname_section_1"
   sceneDescription: string; // What happens in this scene
   script: string; // Direct text from the story for this section
-  duration?: number;
+  sourceStart?: number; // Character offsets of the script in the story's textContent
+  sourceEnd?: number;
+  duration?: number; // Narration length in seconds: measured after text-to-speech, estimated from the script before
   status: 'pending' | 'generating' | 'completed' | 'failed';
   error?: string;
   
   // File paths (populated during generation)
   scriptPath?: string; // Path to the script file for this section
-  narrationScriptPath?: string; // Path to the narration script file for this section (generated by audio service)
+  narrationScriptPath?: string; // Script rewritten for reading aloud, when narration adaptation is on (see NarrationService)
   videoPath?: string; // Path to the video file for this section
   audioPath?: string; // Path to the audio file for this section
+  mixedAudioPath?: string; // Normalized narration mixed with music and the video's sound effects
   backgroundImagePath?: string; // Path to the background image for this section
+  shots?: Shot[]; // Shot list the video is made from, one clip per shot (see ShotPlannerService)
+  assets?: Partial<Record<SectionAsset, AssetRecord>>; // Input hashes of the generated assets
+  staleAssets?: SectionAsset[]; // Generated assets whose inputs changed since they were made
+}
+
+export type ShotType = 'establishing' | 'wide' | 'medium' | 'close-up' | 'over-the-shoulder' | 'point-of-view';
+
+export type CameraMove = 'static' | 'pan' | 'tilt' | 'dolly-in' | 'dolly-out' | 'tracking' | 'crane' | 'handheld';
+
+/**
+ * One shot of a section's video, generated as its own clip
+ */
+export interface Shot {
+  shotType: ShotType;
+  cameraMove: CameraMove;
+  characters: string[]; // Names of the story characters on screen
+  action: string; // What happens in the shot
+  duration: number; // Seconds; one of config.video.clipLengths
 }
 
-// Keep the old interface for backward compatibility
-export interface StorySegment extends StorySection {}
+export type SectionAsset = 'audio' | 'background' | 'video' | 'mix';
+
+export interface AssetRecord {
+  hash: string; // Hash of everything the asset was generated from (text, style, voice, model)
+  generatedAt: string;
+}
+
+/**
+ * Character-level timing returned by text-to-speech providers that support it
+ */
+export interface SpeechAlignment {
+  characters: string[];
+  characterStartTimesSeconds: number[];
+  characterEndTimesSeconds: number[];
+}
+
+export type CaptionFormat = 'vtt' | 'srt';
+
+export interface CaptionCue {
+  start: number; // Seconds from the start of the section (or story)
+  end: number;
+  text: string;
+}
 
 export interface StoryStyle {
   characters: Array<{
@@ -38,6 +80,35 @@ export interface StoryStyle {
   };
 }
 
+/**
+ * Style corrections supplied when a story is created
+ */
+export interface StyleHints {
+  characters?: StoryStyle['characters']; // Replace extracted characters with the same name, or add new ones
+  setting?: Partial<StoryStyle['setting']>;
+  visualStyle?: Partial<StoryStyle['visualStyle']>;
+}
+
+export interface ProvidedSection {
+  script: string;
+  sceneDescription?: string;
+  duration?: number;
+}
+
+export interface CharacterPortrait {
+  name: string; // Character name as in styleInfo.characters
+  imagePath: string; // data/<storyName>/characters/<name>.png
+  hash: string; // Hash of the character and visual style it was drawn from
+}
+
+/**
+ * ElevenLabs voices for a story's narration
+ */
+export interface VoiceCasting {
+  narrator: string; // Voice for everything outside attributed dialogue
+  characters: Record<string, string>; // Character name (as in styleInfo.characters) -> voice
+}
+
 export interface StoryData {
   id: string;
   storyName: string; // Clean name for folder creation
@@ -50,19 +121,99 @@ export interface StoryData {
   styleInfo?: StoryStyle;
   referenceImagePath?: string;
   referenceImageUrl?: string;
+  referenceImageHash?: string; // Hash of the style the reference image was generated from
+  characterPortraits?: CharacterPortrait[]; // One portrait per character, used to seed video generation
+  musicTrack?: string; // Music bed (file name in config.audioMix.musicDir) the sections were last mixed with
+  voiceCasting?: VoiceCasting; // Missing until narration is first generated or voices are cast
   sections: StorySection[];
   error?: string;
-  
-  // Legacy support
-  segments: StorySegment[];
+  segmentation?: Partial<SegmentationSettings>; // Per-upload overrides of config.segmentation
+  styleHints?: StyleHints; // Applied over the extracted style
+  providedSections?: ProvidedSection[]; // Sections supplied at creation; analysis is skipped
+  moviePath?: string; // Final assembled movie (data/<storyName>/final.mp4)
+  movieUpdatedAt?: string;
+}
+
+/**
+ * How faithfully section scripts reproduce the story text
+ */
+export interface FidelityReport {
+  checkedAt: string;
+  sourceWords: number;
+  coverage: number; // Fraction of story words inside some section's span
+  faithful: boolean; // No gaps, overlaps or changed text
+  sections: SectionFidelity[];
+  issues: FidelityIssue[];
+}
+
+export interface SectionFidelity {
+  sectionId: number;
+  sourceStart?: number; // Missing when the script couldn't be found in the story
+  sourceEnd?: number;
+  scriptWords: number;
+  matchedWords: number; // Script words found, in order, in the source span
+  unmatchedWords: number; // Script words not in the source (paraphrased or invented)
+  omittedWords: number; // Source words in the span left out of the script
+}
+
+export interface FidelityIssue {
+  type: 'gap' | 'overlap' | 'hallucinated' | 'omitted' | 'unaligned';
+  sectionId?: number; // For gaps, the section after the gap (none for a gap at the end)
+  words: number;
+  sourceStart?: number;
+  sourceEnd?: number;
+  text: string; // Excerpt of the affected text
+}
+
+export type StoryFileFormat = 'txt' | 'pdf' | 'docx' | 'epub' | 'md' | 'html' | 'rtf';
+
+export interface SegmentationSettings {
+  fixedSegmentCount: number; // 0 = derive the count from story length
+  minSegments: number;
+  maxSegments: number;
+  wordsPerSegment: number;
+}
+
+export interface RebuildPlan {
+  referenceImage: boolean; // Reference image was generated from an older style
+  characterPortraits: boolean; // Some character portraits are missing or were drawn from an older style
+  sections: Array<{ sectionId: number; assets: SectionAsset[] }>;
 }
 
 export interface UploadResponse {
   success: boolean;
   storyId: string;
+  jobId?: string;
   message: string;
 }
 
+export type JobType = 'process-story' | 'generate-all-videos' | 'assemble-movie' | 'rebuild-story';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobStep {
+  name: string; // e.g., "extract_style" or "video:3"
+  status: 'running' | 'completed' | 'failed';
+  startedAt: string;
+  completedAt?: string;
+  error?: string;
+}
+
+export interface Job {
+  id: string;
+  type: JobType;
+  storyId: string;
+  status: JobStatus;
+  attempts: number; // Incremented every time the job starts (including resumes after a restart)
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  cancelRequested?: boolean;
+  steps: JobStep[];
+  error?: string;
+}
+
 export interface ProcessingStatus {
   storyId: string;
   status: StoryData['status'];
@@ -71,9 +222,6 @@ export interface ProcessingStatus {
   sections?: StorySection[];
   styleInfo?: StoryStyle;
   error?: string;
-  
-  // Legacy support
-  segments?: StorySegment[];
 }
 
 
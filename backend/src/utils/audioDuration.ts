@@ -0,0 +1,114 @@
+import fs from 'fs/promises';
+
+// Bitrates in kbps, indexed by [MPEG-1 ? 0 : 1][layer III ? 2 : layer II ? 1 : 0][index]
+const BITRATES = [
+  [
+    [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  ],
+  [
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  ],
+];
+
+const SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG-1
+  2: [22050, 24000, 16000], // MPEG-2
+  0: [11025, 12000, 8000], // MPEG-2.5
+};
+
+/**
+ * Skip an ID3v2 tag at the start of the buffer, if present
+ */
+function id3Size(buffer: Buffer): number {
+  if (buffer.length < 10 || buffer.toString('latin1', 0, 3) !== 'ID3') return 0;
+  const size = (buffer[6] << 21) | (buffer[7] << 14) | (buffer[8] << 7) | buffer[9];
+  return 10 + size;
+}
+
+/**
+ * Length and sample count of the MP3 frame starting at offset, or null if there is no valid frame header there
+ */
+function readFrame(buffer: Buffer, offset: number): { length: number; samples: number; sampleRate: number } | null {
+  // Frame sync: 11 set bits
+  if (offset + 4 > buffer.length || buffer[offset] !== 0xff || (buffer[offset + 1] & 0xe0) !== 0xe0) {
+    return null;
+  }
+
+  const versionBits = (buffer[offset + 1] >> 3) & 0x03;
+  const layerBits = (buffer[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = buffer[offset + 2] >> 4;
+  const sampleRateIndex = (buffer[offset + 2] >> 2) & 0x03;
+  const padding = (buffer[offset + 2] >> 1) & 0x01;
+
+  const sampleRate = SAMPLE_RATES[versionBits]?.[sampleRateIndex];
+  if (versionBits === 1 || layerBits === 0 || !sampleRate || bitrateIndex === 0 || bitrateIndex === 15) {
+    return null;
+  }
+
+  const mpeg1 = versionBits === 3;
+  const layer = 4 - layerBits; // 1, 2 or 3
+  const bitrate = BITRATES[mpeg1 ? 0 : 1][layer - 1][bitrateIndex] * 1000;
+  const samples = layer === 1 ? 384 : layer === 3 && !mpeg1 ? 576 : 1152;
+  const length = layer === 1
+    ? (Math.floor((12 * bitrate) / sampleRate) + padding) * 4
+    : Math.floor((samples / 8 * bitrate) / sampleRate) + padding;
+
+  return length > 0 ? { length, samples, sampleRate } : null;
+}
+
+/**
+ * Duration of MP3 audio in seconds, computed by walking the frame headers.
+ * Works without ffprobe, so captions can be timed anywhere the pipeline runs.
+ */
+export function getMp3Duration(buffer: Buffer): number {
+  let offset = id3Size(buffer);
+  let duration = 0;
+
+  while (offset + 4 <= buffer.length) {
+    const frame = readFrame(buffer, offset);
+    if (!frame) {
+      offset++;
+      continue;
+    }
+
+    duration += frame.samples / frame.sampleRate;
+    offset += frame.length;
+  }
+
+  return duration;
+}
+
+/**
+ * MP3 audio without its ID3 tags and Xing/Info/VBRI header frame, which describe one
+ * file and are wrong once files are joined. Leaves just the audio frames.
+ */
+export function stripMp3Headers(buffer: Buffer): Buffer {
+  let start = id3Size(buffer);
+  let end = buffer.length;
+
+  // ID3v1 tag: the last 128 bytes
+  if (end - start >= 128 && buffer.toString('latin1', end - 128, end - 125) === 'TAG') {
+    end -= 128;
+  }
+
+  while (start < end && !readFrame(buffer, start)) start++;
+  const first = readFrame(buffer, start);
+  if (first) {
+    // The header tag sits after the side information, within the first few dozen bytes
+    const head = buffer.toString('latin1', start + 4, Math.min(start + 40, end));
+    if (/Xing|Info|VBRI/.test(head)) start += first.length;
+  }
+
+  return buffer.subarray(start, end);
+}
+
+/**
+ * Duration of an MP3 file in seconds
+ */
+export async function getMp3FileDuration(filePath: string): Promise<number> {
+  return getMp3Duration(await fs.readFile(filePath));
+}
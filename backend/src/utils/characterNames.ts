@@ -0,0 +1,50 @@
+// Words in a character's name that don't identify them on their own
+const NAME_TITLES = new Set([
+  'the', 'a', 'an', 'mr', 'mrs', 'ms', 'miss', 'dr', 'sir', 'lady', 'lord', 'king', 'queen',
+  'prince', 'princess', 'little', 'old', 'young', 'big', 'mother', 'father', 'uncle', 'aunt',
+]);
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Patterns that refer to a character: the full name, or a distinctive part of it
+ * ("Tom" for "Tom Thumb", "Aurora" for "Princess Aurora"). Single words are matched
+ * case-sensitively so "Rose" doesn't match "rose".
+ */
+function namePatterns(name: string): RegExp[] {
+  const trimmed = name.trim();
+  if (!trimmed) return [];
+
+  const parts = trimmed
+    .split(/\s+/)
+    .filter(part => part.length >= 3 && !NAME_TITLES.has(part.toLowerCase()) && part !== trimmed);
+
+  return [
+    new RegExp(`\\b${escapeRegExp(trimmed)}\\b`, /\s/.test(trimmed) ? 'gi' : 'g'),
+    ...parts.map(part => new RegExp(`\\b${escapeRegExp(part)}\\b`, 'g')),
+  ];
+}
+
+/**
+ * Whether a text mentions a character
+ */
+export function mentionsCharacter(text: string, name: string): boolean {
+  return namePatterns(name).some(pattern => pattern.test(text));
+}
+
+/**
+ * Every mention of the given characters in a text, in order of position
+ */
+export function findCharacterMentions(text: string, names: string[]): Array<{ name: string; index: number }> {
+  const mentions: Array<{ name: string; index: number }> = [];
+  for (const name of names) {
+    for (const pattern of namePatterns(name)) {
+      for (const match of text.matchAll(pattern)) {
+        mentions.push({ name, index: match.index! });
+      }
+    }
+  }
+  return mentions.sort((a, b) => a.index - b.index);
+}
@@ -0,0 +1,79 @@
+import { config } from '@/config';
+import { StorySection } from '@/types';
+import { countWords } from './storyChunker';
+
+// Video models make short clips, so a section's narration is covered by one or
+// more clips whose lengths come from config.video.clipLengths.
+
+// A storyteller's pace, about 150 words a minute
+const WORDS_PER_SECOND = 2.5;
+
+/**
+ * How long a script takes to read aloud, for sections whose narration hasn't been measured
+ */
+export function estimateNarrationSeconds(script: string): number {
+  return Math.max(1, Math.round((countWords(script) / WORDS_PER_SECOND) * 10) / 10);
+}
+
+/**
+ * Clip lengths covering a narration: as many of the longest clips as needed, then the
+ * shortest allowed length that covers the rest. Capped at maxClips; the movie loops
+ * or stretches the picture over whatever is left.
+ */
+export function planClips(seconds: number, lengths: number[], maxClips: number): number[] {
+  const sorted = [...lengths].sort((a, b) => a - b);
+  const longest = sorted[sorted.length - 1];
+  const clips: number[] = [];
+
+  let remaining = seconds;
+  while (remaining > longest && clips.length < maxClips - 1) {
+    clips.push(longest);
+    remaining -= longest;
+  }
+  clips.push(sorted.find(length => length >= remaining) ?? longest);
+
+  return clips;
+}
+
+/**
+ * The clips planned for a section, from its measured (or estimated) narration length
+ */
+export function planSectionClips(section: StorySection): number[] {
+  const seconds = section.duration || estimateNarrationSeconds(section.script);
+  return planClips(seconds, config.video.clipLengths, config.video.maxClipsPerSection);
+}
+
+/**
+ * Split a script into one consecutive part per clip, in proportion to the clips'
+ * lengths and breaking between sentences. Clips left without a sentence of their
+ * own continue the part before them.
+ */
+export function splitScriptForClips(script: string, clips: number[]): string[] {
+  if (clips.length <= 1) return [script];
+
+  const sentences = script.match(/[^.!?]+[.!?]+["')\]”’]*\s*|[^.!?]+$/g) ?? [script];
+  const totalWords = countWords(script);
+  const totalSeconds = clips.reduce((sum, length) => sum + length, 0);
+  const parts = clips.map(() => '');
+
+  let clip = 0;
+  let clipEnd = clips[0];
+  let words = 0;
+  sentences.forEach((sentence, i) => {
+    const sentencesLeft = sentences.length - i;
+    const clipsLeft = clips.length - clip - 1;
+    // Move on once this clip has its share of the words, or so every later clip gets a sentence
+    if (clipsLeft > 0 && parts[clip] && (words >= (totalWords * clipEnd) / totalSeconds || sentencesLeft <= clipsLeft)) {
+      clip++;
+      clipEnd += clips[clip];
+    }
+    parts[clip] += sentence;
+    words += countWords(sentence);
+  });
+
+  let previous = script.trim();
+  return parts.map(part => {
+    previous = part.trim() || previous;
+    return previous;
+  });
+}
@@ -0,0 +1,75 @@
+import { findCharacterMentions } from './characterNames';
+
+// Splits narration scripts into narrator text and quoted dialogue, attributing each
+// quote to the character named in the tag next to it ("...," said Tom / Tom said, "...").
+
+export interface ScriptLine {
+  text: string;
+  speaker?: string; // Character name; missing for narration and dialogue nobody could be credited with
+}
+
+// Straight or curly double quotes; a straight quote never spans a line break
+const QUOTE_PATTERN = /“[^”]+”|"[^"\n]+"/g;
+// How far around a quote to look for its speech tag
+const TAG_WINDOW_CHARS = 80;
+// A pronoun between the quote and a name means the name isn't the speaker ("she said to Tom")
+const PRONOUN_PATTERN = /\b(?:he|she|they|it|i|we|you)\b/i;
+
+/**
+ * The character named in a speech tag, if nothing else is talking in it
+ */
+function speakerIn(tag: string, characters: string[], fromEnd: boolean): string | undefined {
+  const mentions = findCharacterMentions(tag, characters);
+  const mention = fromEnd ? mentions[mentions.length - 1] : mentions[0];
+  if (!mention) return undefined;
+
+  const between = fromEnd
+    ? tag.slice(mention.index).replace(/^\S+/, '')
+    : tag.slice(0, mention.index);
+  return PRONOUN_PATTERN.test(between) ? undefined : mention.name;
+}
+
+/**
+ * Split a script into narration and dialogue lines. The lines' text joins back into
+ * the script exactly. Quotes are credited to a character named in a tag leading into
+ * them, in the sentence right after them, or failing that the one right before;
+ * otherwise they stay with the narrator.
+ */
+export function splitDialogue(script: string, characters: string[]): ScriptLine[] {
+  const lines: ScriptLine[] = [];
+  const quotes = [...script.matchAll(QUOTE_PATTERN)];
+  let cursor = 0;
+
+  const pushText = (text: string, speaker?: string) => {
+    if (!text) return;
+    const previous = lines[lines.length - 1];
+    // Whitespace between quotes rides along with the line before it
+    if (previous && (!/\S/.test(text) || previous.speaker === speaker)) {
+      previous.text += text;
+    } else {
+      lines.push(speaker ? { text, speaker } : { text });
+    }
+  };
+
+  quotes.forEach((quote, i) => {
+    const start = quote.index!;
+    const end = start + quote[0].length;
+    const nextStart = quotes[i + 1]?.index ?? script.length;
+
+    // The tag ends at the first sentence break after the quote, or starts after the last one before it
+    const after = script.slice(end, Math.min(nextStart, end + TAG_WINDOW_CHARS)).split(/[.!?\n]/)[0];
+    const beforeWindow = script.slice(Math.max(cursor, start - TAG_WINDOW_CHARS), start);
+    const before = beforeWindow.slice(Math.max(...['.', '!', '?', '\n'].map(c => beforeWindow.lastIndexOf(c))) + 1);
+
+    // A tag leading into the quote (Tom said, "..." / replied Anna: "...") wins over the sentence after it
+    const leadIn = /[,:]\s*$/.test(before) ? speakerIn(before, characters, true) : undefined;
+    const speaker = leadIn ?? speakerIn(after, characters, false) ?? speakerIn(before, characters, true);
+
+    pushText(script.slice(cursor, start));
+    pushText(quote[0], speaker);
+    cursor = end;
+  });
+  pushText(script.slice(cursor));
+
+  return lines;
+}
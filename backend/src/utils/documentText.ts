@@ -0,0 +1,296 @@
+import path from 'path';
+import { ZipArchive } from './zip';
+
+// Converters from document formats to plain story text. Headings are kept as
+// markdown-style "# Heading" lines so chunking and analysis can use them as
+// chapter breaks.
+
+// Longest story accepted (see FileParserService.validateContent); converters stop
+// reading once they have more than this, since the story will be rejected anyway
+export const MAX_STORY_CHARS = 100000;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  mdash: '—', ndash: '–', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+};
+
+// RTF destinations whose content is not story text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'header', 'headerl', 'headerr', 'footer',
+  'footerl', 'footerr', 'footnote', 'object', 'themedata', 'datastore', 'latentstyles', 'listtable',
+  'listoverridetable', 'rsidtbl', 'generator', 'xmlnstbl', 'mmathPr', 'fldinst',
+]);
+
+const RTF_SYMBOLS: Record<string, string> = {
+  emdash: '—', endash: '–', lquote: '‘', rquote: '’', ldblquote: '“', rdblquote: '”', bullet: '•', tab: ' ',
+};
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&([a-z]+);/gi, (entity, name) => NAMED_ENTITIES[name.toLowerCase()] ?? entity);
+}
+
+function heading(level: number, text: string): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line ? `\n\n${'#'.repeat(Math.min(Math.max(level, 1), 6))} ${line}\n\n` : '';
+}
+
+/**
+ * Collapse runs of spaces within lines and blank lines between paragraphs
+ */
+function tidy(text: string): string {
+  return text
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * HTML or XHTML to text, one paragraph per block element
+ */
+export function htmlToText(html: string): string {
+  const body = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(head|script|style|nav)\b[\s\S]*?<\/\1>/gi, '')
+    // Source line breaks are just whitespace; structure comes from the tags
+    .replace(/\s+/g, ' ')
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, inner) =>
+      heading(parseInt(level), decodeEntities(inner.replace(/<[^>]+>/g, ' ')))
+    )
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|blockquote|section|article|tr)>|<hr\b[^>]*>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '');
+
+  return tidy(decodeEntities(body));
+}
+
+/**
+ * Markdown to text: headings kept as "#" lines, formatting and links removed
+ */
+export function markdownToText(markdown: string): string {
+  const text = markdown
+    .replace(/\r\n/g, '\n')
+    .replace(/^---\n[\s\S]*?\n---\n/, '') // Front matter
+    .replace(/^```.*$/gm, '')
+    .replace(/^(.+)\n=+\s*$/gm, (_, title) => `# ${title}`) // Setext headings
+    .replace(/^(.+)\n-+\s*$/gm, (_, title) => `## ${title}`)
+    .replace(/^(#{1,6})\s+(.*?)\s*#*\s*$/gm, (_, hashes, title) => `\n${hashes} ${title}\n`)
+    .replace(/^\s*([-*_])(\s*\1){2,}\s*$/gm, '') // Horizontal rules (scene breaks)
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(\*|_)(\S(?:.*?\S)?)\1/g, '$2')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/^\s*>\s?/gm, '')
+    .replace(/^\s*(?:[-*+]|\d+\.)\s+/gm, '');
+
+  return tidy(decodeEntities(text));
+}
+
+/**
+ * RTF to text. Paragraphs with an outline level (Word headings) become "#" lines.
+ */
+export function rtfToText(rtf: string): string {
+  const paragraphs: string[] = [];
+  const groups: Array<{ skip: boolean; unicodeSkip: number }> = [];
+  let state = { skip: false, unicodeSkip: 1 };
+  let paragraph = '';
+  let outlineLevel: number | null = null;
+  let pendingSkip = 0; // ANSI fallback characters to drop after a \u escape
+  let destinationStart = false;
+
+  const endParagraph = () => {
+    const text = paragraph.replace(/\s+/g, ' ').trim();
+    if (text) paragraphs.push(outlineLevel !== null ? `${'#'.repeat(Math.min(outlineLevel + 1, 6))} ${text}` : text);
+    paragraph = '';
+  };
+  const emit = (text: string) => {
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    if (!state.skip) paragraph += text;
+  };
+
+  let i = 0;
+  while (i < rtf.length) {
+    const char = rtf[i];
+
+    if (char === '{') {
+      groups.push(state);
+      state = { ...state };
+      destinationStart = true;
+      i++;
+      continue;
+    }
+    if (char === '}') {
+      state = groups.pop() ?? { skip: false, unicodeSkip: 1 };
+      destinationStart = false;
+      i++;
+      continue;
+    }
+    if (char === '\r' || char === '\n') {
+      i++;
+      continue;
+    }
+    if (char !== '\\') {
+      emit(char);
+      destinationStart = false;
+      i++;
+      continue;
+    }
+
+    const next = rtf[i + 1];
+    if (next === '\'') {
+      // Hex-escaped byte in the Windows-1252 code page (approximated as Latin-1)
+      emit(Buffer.from(rtf.slice(i + 2, i + 4), 'hex').toString('latin1'));
+      i += 4;
+      continue;
+    }
+    if (next === '*') {
+      state.skip = true; // Optional destination the reader doesn't understand
+      i += 2;
+      continue;
+    }
+    if (next === '\\' || next === '{' || next === '}') {
+      emit(next);
+      i += 2;
+      continue;
+    }
+    if (next === '~') {
+      emit(' ');
+      i += 2;
+      continue;
+    }
+    if (next === '\n' || next === '\r') {
+      if (!state.skip) endParagraph();
+      i += 2;
+      continue;
+    }
+
+    const match = /^\\([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i, i + 40));
+    if (!match) {
+      i += 2; // Other control symbols (\-, \_, \|) carry no text
+      continue;
+    }
+    const [whole, word, param] = match;
+    i += whole.length;
+
+    if (destinationStart && RTF_SKIPPED_DESTINATIONS.has(word)) {
+      state.skip = true;
+    }
+    destinationStart = false;
+
+    switch (word) {
+      case 'par':
+      case 'sect':
+      case 'page':
+        if (!state.skip) endParagraph();
+        break;
+      case 'line':
+        emit('\n');
+        break;
+      case 'pard':
+        outlineLevel = null;
+        break;
+      case 'outlinelevel':
+        outlineLevel = parseInt(param ?? '0');
+        break;
+      case 'uc':
+        state.unicodeSkip = parseInt(param ?? '1');
+        break;
+      case 'u': {
+        const code = parseInt(param ?? '0');
+        emit(String.fromCharCode(code < 0 ? code + 65536 : code));
+        pendingSkip = state.unicodeSkip;
+        break;
+      }
+      default:
+        if (RTF_SYMBOLS[word]) emit(RTF_SYMBOLS[word]);
+    }
+  }
+  endParagraph();
+
+  return tidy(paragraphs.join('\n\n'));
+}
+
+/**
+ * DOCX (Office Open XML) to text. Paragraphs styled as Title or Heading N become "#" lines.
+ */
+export function docxToText(buffer: Buffer): string {
+  const xml = new ZipArchive(buffer).readText('word/document.xml');
+  if (!xml) {
+    throw new Error('DOCX file has no word/document.xml');
+  }
+
+  const paragraphs: string[] = [];
+  for (const [paragraph] of xml.matchAll(/<w:p[ >][\s\S]*?<\/w:p>/g)) {
+    const text = decodeEntities(
+      paragraph
+        .replace(/<w:tab\/>/g, ' ')
+        .replace(/<w:(?:br|cr)\b[^>]*\/>/g, '\n')
+        .replace(/<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<[^>]+>/g, (_, run) => run ?? '')
+    );
+
+    const style = /<w:pStyle w:val="([^"]+)"/.exec(paragraph)?.[1] ?? '';
+    const outline = /<w:outlineLvl w:val="(\d)"/.exec(paragraph)?.[1];
+    const level = /^title$/i.test(style)
+      ? 1
+      : /^heading\s?(\d)$/i.exec(style)?.[1] ?? (outline !== undefined ? parseInt(outline) + 1 : null);
+
+    paragraphs.push(level !== null ? heading(Number(level), text) : text);
+  }
+
+  return tidy(paragraphs.join('\n\n'));
+}
+
+/**
+ * EPUB to text: the spine's XHTML documents in reading order
+ */
+export function epubToText(buffer: Buffer): string {
+  const archive = new ZipArchive(buffer);
+  const container = archive.readText('META-INF/container.xml');
+  const opfPath = container && /<rootfile[^>]*full-path="([^"]+)"/.exec(container)?.[1];
+  const opf = opfPath && archive.readText(opfPath);
+  if (!opfPath || !opf) {
+    throw new Error('EPUB file has no package document');
+  }
+
+  const manifest = new Map<string, string>();
+  for (const [item] of opf.matchAll(/<item\b[^>]*>/g)) {
+    const id = /\bid="([^"]+)"/.exec(item)?.[1];
+    const href = /\bhref="([^"]+)"/.exec(item)?.[1];
+    if (id && href) manifest.set(id, href);
+  }
+
+  const baseDir = path.posix.dirname(opfPath);
+  const documents: string[] = [];
+  const read = new Set<string>();
+  let length = 0;
+  for (const [itemref] of opf.matchAll(/<itemref\b[^>]*>/g)) {
+    if (/\blinear="no"/.test(itemref)) continue;
+    const href = manifest.get(/\bidref="([^"]+)"/.exec(itemref)?.[1] ?? '');
+    if (!href) continue;
+
+    const entry = path.posix.normalize(path.posix.join(baseDir, decodeURIComponent(href.split('#')[0])));
+    if (read.has(entry)) continue;
+    read.add(entry);
+
+    const html = archive.readText(entry);
+    if (!html) continue;
+    documents.push(htmlToText(html));
+
+    // Too long to accept already; don't inflate the rest
+    length += documents[documents.length - 1].length;
+    if (length > MAX_STORY_CHARS) break;
+  }
+
+  if (documents.length === 0) {
+    throw new Error('EPUB file has no readable chapters');
+  }
+  return tidy(documents.join('\n\n'));
+}
@@ -0,0 +1,99 @@
+import { spawn } from 'child_process';
+import fs from 'fs/promises';
+import { config } from '@/config';
+
+/**
+ * Run a media tool, collecting stderr for error reporting and stdout as the result
+ */
+function runTool(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args);
+    let stdout = '';
+    let stderr = '';
+
+    child.stdout.on('data', (chunk) => {
+      stdout += chunk.toString();
+    });
+    child.stderr.on('data', (chunk) => {
+      stderr += chunk.toString();
+    });
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') {
+        reject(new Error(`${command} not found. Install ffmpeg or set FFMPEG_PATH/FFPROBE_PATH.`));
+      } else {
+        reject(error);
+      }
+    });
+
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${stderr.trim().split('\n').slice(-3).join(' ')}`));
+      }
+    });
+  });
+}
+
+/**
+ * Run ffmpeg with the given arguments and resolve once it exits successfully
+ */
+export async function runFfmpeg(args: string[]): Promise<void> {
+  await runTool(config.media.ffmpegPath, ['-hide_banner', '-loglevel', 'error', '-y', ...args]);
+}
+
+/**
+ * Get the duration of a media file in seconds
+ */
+export async function probeDuration(filePath: string): Promise<number> {
+  const output = await runTool(config.media.ffprobePath, [
+    '-v', 'error',
+    '-show_entries', 'format=duration',
+    '-of', 'default=noprint_wrappers=1:nokey=1',
+    filePath,
+  ]);
+
+  const duration = parseFloat(output.trim());
+  if (isNaN(duration)) {
+    throw new Error(`Could not read duration of ${filePath}`);
+  }
+  return duration;
+}
+
+/**
+ * Whether a media file contains an audio stream
+ */
+export async function hasAudioStream(filePath: string): Promise<boolean> {
+  const output = await runTool(config.media.ffprobePath, [
+    '-v', 'error',
+    '-select_streams', 'a',
+    '-show_entries', 'stream=index',
+    '-of', 'csv=p=0',
+    filePath,
+  ]);
+  return output.trim().length > 0;
+}
+
+/**
+ * Join media files that share the same encoding into one, without re-encoding
+ */
+export async function concatMedia(inputs: string[], outputPath: string): Promise<void> {
+  const listPath = `${outputPath}.txt`;
+  await fs.writeFile(listPath, inputs.map(input => `file '${input.replace(/'/g, "'\\''")}'`).join('\n'), 'utf-8');
+
+  try {
+    const faststart = outputPath.endsWith('.mp4') ? ['-movflags', '+faststart'] : [];
+    await runFfmpeg(['-f', 'concat', '-safe', '0', '-i', listPath, '-c', 'copy', ...faststart, outputPath]);
+  } finally {
+    await fs.rm(listPath, { force: true });
+  }
+}
+
+/**
+ * Save the last frame of a video as an image
+ */
+export async function extractLastFrame(videoPath: string, imagePath: string): Promise<void> {
+  // Decode the final half second, overwriting the image with each frame
+  await runFfmpeg(['-sseof', '-0.5', '-i', videoPath, '-update', '1', imagePath]);
+}
@@ -1,7 +1,7 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { config } from '@/config';
-import { StoryData } from '@/types';
+import { CaptionFormat, Job, SpeechAlignment, StoryData } from '@/types';
 
 export class FileStorageService {
   /**
@@ -37,6 +37,7 @@ export class FileStorageService {
       config.storage.storiesDir,
       config.storage.videosDir,
       config.storage.imagesDir,
+      config.storage.jobsDir,
     ];
 
     for (const dir of directories) {
@@ -97,6 +98,51 @@ export class FileStorageService {
     }
   }
 
+  /**
+   * Save job state to JSON file
+   */
+  async saveJob(job: Job): Promise<void> {
+    const filePath = path.join(config.storage.jobsDir, `${job.id}.json`);
+    await fs.writeFile(filePath, JSON.stringify(job, null, 2), 'utf-8');
+  }
+
+  /**
+   * List all persisted jobs
+   */
+  async listJobs(): Promise<Job[]> {
+    try {
+      const files = await fs.readdir(config.storage.jobsDir);
+      const jobs: Job[] = [];
+
+      for (const file of files) {
+        if (file.endsWith('.json')) {
+          const content = await fs.readFile(path.join(config.storage.jobsDir, file), 'utf-8');
+          jobs.push(JSON.parse(content));
+        }
+      }
+
+      return jobs.sort((a, b) =>
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a stored story other than exceptStoryId keeps its files in data/<storyName>/
+   */
+  async isStoryNameInUse(storyName: string, exceptStoryId?: string): Promise<boolean> {
+    const stories = await this.listStories();
+    return stories.some(story =>
+      story.id !== exceptStoryId
+      && (story.storyName || this.sanitizeStoryName(story.originalFilename)) === storyName
+    );
+  }
+
   /**
    * Delete story and associated files
    */
@@ -104,10 +150,18 @@ export class FileStorageService {
     const storyPath = path.join(config.storage.storiesDir, `${storyId}.json`);
     await fs.unlink(storyPath).catch(() => {});
     
-    // Delete new folder structure (story-name folder)
+    // Delete new folder structure (story-name folder), unless another story shares it
+    // (older stories with the same file name) or it is one of the storage folders
     if (storyName) {
-      const storyDir = this.getStoryDirectory(storyName);
-      await fs.rm(storyDir, { recursive: true, force: true }).catch(() => {});
+      const storyDir = path.resolve(this.getStoryDirectory(storyName));
+      const { uploadDir, storiesDir, videosDir, imagesDir, jobsDir } = config.storage;
+      const isStorageDir = [uploadDir, storiesDir, videosDir, imagesDir, jobsDir].some(dir => path.resolve(dir) === storyDir);
+
+      if (!isStorageDir && !await this.isStoryNameInUse(storyName, storyId)) {
+        await fs.rm(storyDir, { recursive: true, force: true }).catch(() => {});
+      } else {
+        console.warn(`⚠️  Keeping ${storyDir}: other stories or the app still use it`);
+      }
     }
     
     // Delete legacy video files
@@ -149,6 +203,20 @@ export class FileStorageService {
     return path.join(this.getSectionDirectory(storyName, sectionName), `audio_${sectionNumber}.mp3`);
   }
 
+  /**
+   * Get the path of one of the clips a section's video is joined from (1-based)
+   */
+  getClipPath(storyName: string, sectionName: string, clipNumber: number): string {
+    return path.join(this.getSectionDirectory(storyName, sectionName), 'clips', `clip_${clipNumber}.mp4`);
+  }
+
+  /**
+   * Get mixed audio (narration, music and sound effects) file path for a section
+   */
+  getMixedAudioPath(storyName: string, sectionName: string): string {
+    return path.join(this.getSectionDirectory(storyName, sectionName), 'audio-mix.mp3');
+  }
+
   /**
    * Get background image file path for a section
    */
@@ -156,6 +224,21 @@ export class FileStorageService {
     return path.join(this.getSectionDirectory(storyName, sectionName), 'background.png');
   }
 
+  /**
+   * Get the keyframe (background plus character portraits) used to seed a section's video
+   */
+  getKeyframePath(storyName: string, sectionName: string): string {
+    return path.join(this.getSectionDirectory(storyName, sectionName), 'keyframe.png');
+  }
+
+  /**
+   * Get portrait file path for a story character
+   */
+  getCharacterPortraitPath(storyName: string, characterName: string): string {
+    const fileName = this.sanitizeSectionName(characterName) || 'character';
+    return path.join(this.getStoryDirectory(storyName), 'characters', `${fileName}.png`);
+  }
+
   /**
    * Get script file path for a section
    */
@@ -170,6 +253,34 @@ export class FileStorageService {
     return path.join(this.getSectionDirectory(storyName, sectionName), 'narration-script.txt');
   }
 
+  /**
+   * Get speech alignment (character timestamps) file path for a section
+   */
+  getAlignmentPath(storyName: string, sectionName: string): string {
+    return path.join(this.getSectionDirectory(storyName, sectionName), 'alignment.json');
+  }
+
+  /**
+   * Get caption file path for a section
+   */
+  getSectionCaptionsPath(storyName: string, sectionName: string, format: CaptionFormat): string {
+    return path.join(this.getSectionDirectory(storyName, sectionName), `captions.${format}`);
+  }
+
+  /**
+   * Get whole-story caption file path
+   */
+  getStoryCaptionsPath(storyName: string, format: CaptionFormat): string {
+    return path.join(this.getStoryDirectory(storyName), `captions.${format}`);
+  }
+
+  /**
+   * Get final movie file path for a story
+   */
+  getMoviePath(storyName: string): string {
+    return path.join(this.getStoryDirectory(storyName), 'final.mp4');
+  }
+
   /**
    * Ensure directory exists for story and section assets
    */
@@ -233,7 +344,43 @@ export class FileStorageService {
     return narrationScriptPath;
   }
 
-  // Legacy methods for backward compatibility
+  /**
+   * Save speech alignment for a section
+   */
+  async saveAlignment(storyName: string, sectionName: string, alignment: SpeechAlignment): Promise<string> {
+    await this.ensureStoryDirectories(storyName, sectionName);
+    const alignmentPath = this.getAlignmentPath(storyName, sectionName);
+    await fs.writeFile(alignmentPath, JSON.stringify(alignment), 'utf-8');
+    return alignmentPath;
+  }
+
+  /**
+   * Load speech alignment for a section, if the speech provider returned one
+   */
+  async loadAlignment(storyName: string, sectionName: string): Promise<SpeechAlignment | null> {
+    try {
+      const data = await fs.readFile(this.getAlignmentPath(storyName, sectionName), 'utf-8');
+      return JSON.parse(data);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Move a file, creating the target directory (copies when crossing devices)
+   */
+  async moveFile(from: string, to: string): Promise<void> {
+    await fs.mkdir(path.dirname(to), { recursive: true });
+    try {
+      await fs.rename(from, to);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+      await fs.copyFile(from, to);
+      await fs.unlink(from);
+    }
+  }
+
+  // Legacy layout (data/videos/<id>/segment-N.mp4, data/images/<id>/segment-N.png), read by the storage migration
   getVideoPathLegacy(storyId: string, segmentId: number): string {
     return path.join(config.storage.videosDir, storyId, `segment-${segmentId}.mp4`);
   }
@@ -0,0 +1,98 @@
+import { Request, Response } from 'express';
+import fs from 'fs';
+import path from 'path';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.m4a': 'audio/mp4',
+  '.mp4': 'video/mp4',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.txt': 'text/plain; charset=utf-8',
+  '.vtt': 'text/vtt; charset=utf-8',
+  '.srt': 'application/x-subrip; charset=utf-8',
+};
+
+/**
+ * Content type of a stored file, from its extension
+ */
+export function contentTypeFor(filePath: string, fallback = 'application/octet-stream'): string {
+  return CONTENT_TYPES[path.extname(filePath).toLowerCase()] || fallback;
+}
+
+/**
+ * Whether the client's cached copy (If-None-Match / If-Modified-Since) is still current
+ */
+function isNotModified(req: Request, etag: string, lastModified: Date): boolean {
+  const ifNoneMatch = req.headers['if-none-match'];
+  if (ifNoneMatch) {
+    return ifNoneMatch.split(',').some(tag => tag.trim() === etag || tag.trim() === '*');
+  }
+  const ifModifiedSince = req.headers['if-modified-since'];
+  return !!ifModifiedSince
+    && Math.floor(lastModified.getTime() / 1000) <= Math.floor(Date.parse(ifModifiedSince) / 1000);
+}
+
+/**
+ * Stream a media file, honouring HTTP range requests so players can seek.
+ * Responses carry an ETag and Last-Modified; clients must revalidate because
+ * regenerated assets overwrite the same file.
+ */
+export function streamFile(req: Request, res: Response, filePath: string, contentType = contentTypeFor(filePath)): void {
+  const stat = fs.statSync(filePath);
+  const fileSize = stat.size;
+  const etag = `W/"${fileSize.toString(16)}-${Math.floor(stat.mtimeMs).toString(16)}"`;
+
+  res.setHeader('ETag', etag);
+  res.setHeader('Last-Modified', stat.mtime.toUTCString());
+  res.setHeader('Cache-Control', 'no-cache');
+
+  if (isNotModified(req, etag, stat.mtime)) {
+    res.status(304).end();
+    return;
+  }
+
+  // A range request for an older version of the file gets the whole new file
+  const ifRange = req.headers['if-range'];
+  const range = ifRange && ifRange !== etag && ifRange !== stat.mtime.toUTCString()
+    ? undefined
+    : req.headers.range;
+
+  if (range) {
+    // Handle range requests for streaming
+    const parts = range.replace(/bytes=/, '').split('-');
+    const start = parseInt(parts[0], 10);
+    const end = parts[1] ? parseInt(parts[1], 10) : fileSize - 1;
+
+    if (isNaN(start) || start >= fileSize || end >= fileSize || start > end) {
+      res.writeHead(416, { 'Content-Range': `bytes */${fileSize}` });
+      res.end();
+      return;
+    }
+
+    const chunksize = end - start + 1;
+    const file = fs.createReadStream(filePath, { start, end });
+    const head = {
+      'Content-Range': `bytes ${start}-${end}/${fileSize}`,
+      'Accept-Ranges': 'bytes',
+      'Content-Length': chunksize,
+      'Content-Type': contentType,
+    };
+
+    res.writeHead(206, head);
+    file.pipe(res);
+  } else {
+    // No range request, send entire file
+    const head = {
+      'Content-Length': fileSize,
+      'Accept-Ranges': 'bytes',
+      'Content-Type': contentType,
+    };
+
+    res.writeHead(200, head);
+    fs.createReadStream(filePath).pipe(res);
+  }
+}
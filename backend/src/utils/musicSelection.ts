@@ -0,0 +1,46 @@
+import path from 'path';
+
+// Picks a music bed for a story from its setting's atmosphere. Tracks are matched
+// by file name: a track named after a mood ("calm.mp3", "spooky-forest.mp3") is
+// chosen when the atmosphere uses any of that mood's words.
+
+export const MUSIC_EXTENSIONS = ['.mp3', '.m4a', '.aac', '.wav', '.ogg', '.flac'];
+
+const MOOD_KEYWORDS: Record<string, string[]> = {
+  calm: ['calm', 'peaceful', 'gentle', 'serene', 'cozy', 'quiet', 'tranquil', 'soothing', 'warm', 'tender'],
+  happy: ['happy', 'cheerful', 'joyful', 'playful', 'bright', 'whimsical', 'lighthearted', 'fun', 'festive', 'silly'],
+  adventurous: ['adventure', 'adventurous', 'exciting', 'epic', 'heroic', 'bold', 'daring', 'action', 'triumphant'],
+  mysterious: ['mysterious', 'mystery', 'magical', 'enchanted', 'enchanting', 'wonder', 'curious', 'dreamy', 'mystical'],
+  spooky: ['spooky', 'dark', 'eerie', 'scary', 'ominous', 'creepy', 'tense', 'suspenseful', 'haunted', 'gloomy'],
+  sad: ['sad', 'melancholy', 'melancholic', 'somber', 'bittersweet', 'lonely', 'wistful', 'mournful'],
+};
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z]+/).filter(Boolean);
+}
+
+/**
+ * Best matching track file name for an atmosphere, a track named "default" when
+ * nothing matches, or null for no music
+ */
+export function selectMusicTrack(atmosphere: string, tracks: string[]): string | null {
+  const atmosphereWords = new Set(words(atmosphere));
+  let best: { track: string; score: number } | null = null;
+
+  for (const track of [...tracks].sort()) {
+    const trackWords = words(path.parse(track).name);
+    let score = trackWords.filter(word => atmosphereWords.has(word)).length;
+
+    for (const [mood, keywords] of Object.entries(MOOD_KEYWORDS)) {
+      if (trackWords.includes(mood) || keywords.some(keyword => trackWords.includes(keyword))) {
+        score += keywords.filter(keyword => atmosphereWords.has(keyword)).length;
+      }
+    }
+
+    if (score > 0 && (!best || score > best.score)) {
+      best = { track, score };
+    }
+  }
+
+  return best?.track ?? tracks.find(track => path.parse(track).name.toLowerCase() === 'default') ?? null;
+}
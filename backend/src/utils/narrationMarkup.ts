@@ -0,0 +1,69 @@
+import { SpeechAlignment } from '@/types';
+
+// Narration scripts may mark pauses with <break time="0.5s" /> (read by ElevenLabs)
+// and stressed words with <emphasis>...</emphasis>. Everything else about them is plain text.
+
+const BREAK_TAG = /<break\s+time="(\d+(?:\.\d+)?)(m?s)"\s*\/>/g;
+const MARKUP_TAG = /<\/?[a-z][^<>]*>/gi;
+// ElevenLabs ignores longer breaks
+const MAX_BREAK_SECONDS = 3;
+
+/**
+ * Text without any markup
+ */
+export function stripNarrationMarkup(text: string): string {
+  return text.replace(MARKUP_TAG, '').replace(/[ \t]{2,}/g, ' ');
+}
+
+/**
+ * Text with every tag replaced by spaces of the same length, so positions still line up
+ * with the original but quotes in tag attributes aren't mistaken for dialogue
+ */
+export function maskNarrationMarkup(text: string): string {
+  return text.replace(MARKUP_TAG, tag => ' '.repeat(tag.length));
+}
+
+/**
+ * Normalise model output: keep breaks (clamped to what the speech model honours) and
+ * emphasis, drop any other tags
+ */
+export function sanitizeNarrationMarkup(text: string): string {
+  return text
+    .replace(MARKUP_TAG, tag => {
+      if (/^<\/?emphasis>$/i.test(tag)) return tag.toLowerCase();
+      const match = new RegExp(BREAK_TAG.source).exec(tag);
+      if (!match) return '';
+      const seconds = Math.min(parseFloat(match[1]) / (match[2] === 'ms' ? 1000 : 1), MAX_BREAK_SECONDS);
+      return `<break time="${Number(seconds.toFixed(2))}s" />`;
+    })
+    .trim();
+}
+
+/**
+ * Text to send to the speech model: breaks stay, emphasis tags are unwrapped
+ */
+export function toSpeechText(text: string): string {
+  return text.replace(/<\/?emphasis>/g, '');
+}
+
+/**
+ * Drop the characters of tags from timestamps returned for marked-up text, so
+ * captions only show what was spoken
+ */
+export function stripAlignmentMarkup(alignment: SpeechAlignment): SpeechAlignment {
+  // Same length as the text, with tags blanked out; characters are matched by their offset
+  const masked = maskNarrationMarkup(alignment.characters.join(''));
+  const keep: boolean[] = [];
+  let offset = 0;
+  for (const char of alignment.characters) {
+    keep.push(masked.slice(offset, offset + char.length) === char);
+    offset += char.length;
+  }
+
+  const pick = <T>(values: T[]) => values.filter((_, i) => keep[i]);
+  return {
+    characters: pick(alignment.characters),
+    characterStartTimesSeconds: pick(alignment.characterStartTimesSeconds),
+    characterEndTimesSeconds: pick(alignment.characterEndTimesSeconds),
+  };
+}
@@ -0,0 +1,150 @@
+import { config } from '@/config';
+
+export interface StoryChunk {
+  index: number;
+  /** Text this chunk is responsible for; chunks never share it */
+  text: string;
+  /** End of the previous chunk, given to the model for continuity only */
+  context: string;
+}
+
+export interface ChunkOptions {
+  maxChars?: number;
+  overlapChars?: number;
+}
+
+// "Chapter 3", "CHAPTER IV: The Storm", "Part Two", "Book 1", "# Heading", or a lone roman numeral
+const HEADING_PATTERN = /^(?:#{1,6}\s+\S.*|(?:chapter|part|book|prologue|epilogue)\b.{0,80}|[IVXLC]+\.?)$/i;
+
+/**
+ * Whether a paragraph looks like a chapter or part heading
+ */
+export function isHeading(paragraph: string): boolean {
+  return !paragraph.includes('\n') && paragraph.length <= 100 && HEADING_PATTERN.test(paragraph.trim());
+}
+
+/**
+ * Split text into pieces no longer than maxChars, preferring sentence and then word breaks
+ */
+function splitOversized(text: string, maxChars: number): string[] {
+  if (text.length <= maxChars) return [text];
+
+  const sentences = text.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) || [text];
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    if (sentence.length > maxChars) {
+      if (current.trim()) pieces.push(current.trim());
+      current = '';
+      // A single runaway sentence: fall back to word breaks
+      let rest = sentence.trim();
+      while (rest.length > maxChars) {
+        const cut = rest.lastIndexOf(' ', maxChars);
+        const at = cut > 0 ? cut : maxChars;
+        pieces.push(rest.slice(0, at).trim());
+        rest = rest.slice(at).trim();
+      }
+      current = rest ? `${rest} ` : '';
+      continue;
+    }
+    if (current.length + sentence.length > maxChars && current.trim()) {
+      pieces.push(current.trim());
+      current = '';
+    }
+    current += sentence;
+  }
+  if (current.trim()) pieces.push(current.trim());
+
+  return pieces;
+}
+
+/**
+ * The last `overlapChars` of a chunk, starting at a sentence (or word) boundary
+ */
+function tail(text: string, overlapChars: number): string {
+  if (overlapChars <= 0) return '';
+  if (text.length <= overlapChars) return text;
+
+  const window = text.slice(text.length - overlapChars);
+  const sentenceStart = window.search(/[.!?]["')\]]*\s+\S/);
+  if (sentenceStart >= 0) {
+    const afterBreak = window.slice(sentenceStart).replace(/^[.!?]["')\]]*\s+/, '');
+    if (afterBreak.length >= overlapChars / 4) return afterBreak;
+  }
+  const wordStart = window.indexOf(' ');
+  return wordStart >= 0 ? window.slice(wordStart + 1) : window;
+}
+
+/**
+ * Split a story into chunks of at most maxChars for separate model requests.
+ * Chapter headings start a new chunk once the current one is at least half full;
+ * otherwise chunks are packed with whole paragraphs, splitting oversized
+ * paragraphs at sentence boundaries. Each chunk carries the end of the previous
+ * one as read-only context.
+ */
+export function splitIntoChunks(text: string, options: ChunkOptions = {}): StoryChunk[] {
+  const maxChars = options.maxChars ?? config.chunking.maxChunkChars;
+  const overlapChars = Math.min(options.overlapChars ?? config.chunking.overlapChars, Math.floor(maxChars / 2));
+
+  const trimmed = text.trim();
+  if (trimmed.length <= maxChars) {
+    return [{ index: 0, text: trimmed, context: '' }];
+  }
+
+  const paragraphs = trimmed
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .flatMap(paragraph => splitOversized(paragraph, maxChars));
+
+  const texts: string[] = [];
+  let current: string[] = [];
+  let length = 0;
+
+  const flush = () => {
+    if (current.length > 0) texts.push(current.join('\n\n'));
+    current = [];
+    length = 0;
+  };
+
+  for (const paragraph of paragraphs) {
+    const added = paragraph.length + (current.length > 0 ? 2 : 0);
+    const chapterBreak = isHeading(paragraph) && length >= maxChars / 2;
+    if (chapterBreak || length + added > maxChars) {
+      flush();
+    }
+    current.push(paragraph);
+    length += paragraph.length + (current.length > 1 ? 2 : 0);
+  }
+  flush();
+
+  return texts.map((chunkText, index) => ({
+    index,
+    text: chunkText,
+    context: index > 0 ? tail(texts[index - 1], overlapChars) : '',
+  }));
+}
+
+/**
+ * Offset of the sentence boundary closest to the middle of a text, falling back to
+ * the middle word break. Null when the text has no break at all.
+ */
+export function findSplitPoint(text: string): number | null {
+  const middle = text.length / 2;
+  const boundaries = [...text.matchAll(/[.!?]["')\]]*\s+/g)]
+    .map(match => match.index! + match[0].length)
+    .filter(offset => offset < text.length);
+  const candidates = boundaries.length > 0
+    ? boundaries
+    : [...text.trim().matchAll(/\s+/g)].map(match => match.index! + (text.length - text.trimStart().length));
+
+  if (candidates.length === 0) return null;
+  return candidates.reduce((best, candidate) =>
+    Math.abs(candidate - middle) < Math.abs(best - middle) ? candidate : best
+  );
+}
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
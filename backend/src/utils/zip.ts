@@ -0,0 +1,97 @@
+import zlib from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// Largest entry read, so a small crafted upload can't inflate into gigabytes (zip bomb).
+// Story text, even wrapped in document markup, is far smaller.
+const MAX_ENTRY_BYTES = 32 * 1024 * 1024;
+
+/**
+ * Minimal ZIP reader for the containers DOCX and EPUB files use.
+ * Supports stored and deflated entries; no ZIP64 or encryption.
+ */
+export class ZipArchive {
+  private readonly entries = new Map<string, {
+    method: number;
+    compressedSize: number;
+    uncompressedSize: number;
+    localOffset: number;
+  }>();
+
+  constructor(private readonly buffer: Buffer) {
+    const end = this.findEndOfCentralDirectory();
+    const count = buffer.readUInt16LE(end + 10);
+    let offset = buffer.readUInt32LE(end + 16);
+
+    for (let i = 0; i < count; i++) {
+      if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+        throw new Error('Corrupt ZIP central directory');
+      }
+      const nameLength = buffer.readUInt16LE(offset + 28);
+      const extraLength = buffer.readUInt16LE(offset + 30);
+      const commentLength = buffer.readUInt16LE(offset + 32);
+      const name = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+      this.entries.set(name, {
+        method: buffer.readUInt16LE(offset + 10),
+        compressedSize: buffer.readUInt32LE(offset + 20),
+        uncompressedSize: buffer.readUInt32LE(offset + 24),
+        localOffset: buffer.readUInt32LE(offset + 42),
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  names(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  /**
+   * Contents of an entry as UTF-8 text, or null if it doesn't exist
+   */
+  readText(name: string): string | null {
+    const entry = this.entries.get(name);
+    if (!entry) return null;
+    if (entry.uncompressedSize > MAX_ENTRY_BYTES || entry.compressedSize > MAX_ENTRY_BYTES) {
+      throw new Error(`ZIP entry too large: ${name}`);
+    }
+
+    const header = entry.localOffset;
+    if (this.buffer.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt ZIP entry: ${name}`);
+    }
+    const start = header + 30 + this.buffer.readUInt16LE(header + 26) + this.buffer.readUInt16LE(header + 28);
+    const data = this.buffer.subarray(start, start + entry.compressedSize);
+
+    switch (entry.method) {
+      case 0:
+        return data.toString('utf-8');
+      case 8:
+        // The declared size can lie, so cap the output too
+        try {
+          return zlib.inflateRawSync(data, { maxOutputLength: MAX_ENTRY_BYTES }).toString('utf-8');
+        } catch (error) {
+          if (error instanceof RangeError) throw new Error(`ZIP entry too large: ${name}`);
+          throw error;
+        }
+      default:
+        throw new Error(`Unsupported ZIP compression method ${entry.method} for ${name}`);
+    }
+  }
+
+  private findEndOfCentralDirectory(): number {
+    // The record is 22 bytes plus a comment of up to 64KB at the end of the file
+    const earliest = Math.max(0, this.buffer.length - 22 - 0xffff);
+    for (let offset = this.buffer.length - 22; offset >= earliest; offset--) {
+      if (this.buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+        return offset;
+      }
+    }
+    throw new Error('Not a ZIP archive');
+  }
+}
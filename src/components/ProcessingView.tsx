@@ -30,6 +30,11 @@ export const ProcessingView = ({ progress, currentStep }: ProcessingViewProps) =
             <p className="text-center text-sm text-muted-foreground">
               {progress}% Complete
             </p>
+            {currentStep && (
+              <p className="text-center text-sm text-foreground">
+                {currentStep}
+              </p>
+            )}
           </div>
 
           {/* Steps */}
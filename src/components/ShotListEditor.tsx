@@ -0,0 +1,371 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowDown, ArrowUp, Eraser, Plus, Save, Sparkles, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  CameraMove,
+  ProcessingStatus,
+  SectionShots,
+  SectionsResponse,
+  Shot,
+  ShotType,
+  clearSectionShots,
+  getSectionShots,
+  getStoryStyle,
+  planSectionShots,
+  updateSectionShots,
+} from "@/lib/api";
+
+interface ShotListEditorProps {
+  storyId: string;
+  sectionId: number;
+  sceneNumber: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SHOT_TYPES: ShotType[] = [
+  "establishing",
+  "wide",
+  "medium",
+  "close-up",
+  "over-the-shoulder",
+  "point-of-view",
+];
+
+const CAMERA_MOVES: CameraMove[] = [
+  "static",
+  "pan",
+  "tilt",
+  "dolly-in",
+  "dolly-out",
+  "tracking",
+  "crane",
+  "handheld",
+];
+
+const newShot = (clipLengths: number[]): Shot => ({
+  shotType: "medium",
+  cameraMove: "static",
+  characters: [],
+  action: "",
+  duration: Math.max(...clipLengths),
+});
+
+/**
+ * Side panel for viewing and editing the shot list a scene's video is made from
+ */
+export const ShotListEditor = ({
+  storyId,
+  sectionId,
+  sceneNumber,
+  open,
+  onOpenChange,
+}: ShotListEditorProps) => {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<Shot[] | null>(null);
+  const shotsKey = ["section-shots", storyId, sectionId];
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: shotsKey,
+    queryFn: () => getSectionShots(storyId, sectionId),
+    enabled: open,
+  });
+
+  const shots = data?.shots;
+  const clipLengths = data?.clipLengths ?? [];
+
+  // Characters to pick from; shares the style editor's cache entry
+  const { data: style } = useQuery({
+    queryKey: ["story-style", storyId],
+    queryFn: () => getStoryStyle(storyId),
+    enabled: open,
+  });
+
+  // Start editing from the saved shot list each time the panel opens
+  useEffect(() => {
+    if (open && shots) setDraft(shots);
+  }, [open, shots]);
+
+  // Edits return every section; keep the viewer (stale assets) and this list in step
+  const applyResponse = (response: SectionsResponse) => {
+    queryClient.setQueryData<ProcessingStatus>(
+      ["story-status", storyId],
+      (current) => current && { ...current, sections: response.sections }
+    );
+    const updated = response.sections.find((section) => section.id === sectionId)?.shots ?? [];
+    queryClient.setQueryData<SectionShots>(shotsKey, (current) => current && { ...current, shots: updated });
+    setDraft(updated);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (updated: Shot[]) => updateSectionShots(storyId, sectionId, updated),
+    onSuccess: (response) => {
+      applyResponse(response);
+      toast.success("Shots saved. The scene's video needs regenerating.");
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  const planMutation = useMutation({
+    mutationFn: () => planSectionShots(storyId, sectionId),
+    onSuccess: (response) => {
+      applyResponse(response);
+      toast.success("Shots planned");
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: () => clearSectionShots(storyId, sectionId),
+    onSuccess: (response) => {
+      applyResponse(response);
+      toast.success("Shot list cleared");
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  const busy = saveMutation.isPending || planMutation.isPending || clearMutation.isPending;
+
+  const updateShot = (index: number, changes: Partial<Shot>) => {
+    setDraft((current) => current && current.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+  };
+
+  const toggleCharacter = (index: number, name: string) => {
+    setDraft(
+      (current) =>
+        current &&
+        current.map((s, i) => {
+          if (i !== index) return s;
+          const characters = s.characters.includes(name)
+            ? s.characters.filter((c) => c !== name)
+            : [...s.characters, name];
+          return { ...s, characters };
+        })
+    );
+  };
+
+  const moveShot = (index: number, offset: number) => {
+    setDraft((current) => {
+      if (!current) return current;
+      const target = index + offset;
+      if (target < 0 || target >= current.length) return current;
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeShot = (index: number) => {
+    setDraft((current) => current && current.filter((_, i) => i !== index));
+  };
+
+  const addShot = () => {
+    setDraft((current) => current && [...current, newShot(clipLengths)]);
+  };
+
+  const durationsAllowed = draft?.every((shot) => clipLengths.includes(shot.duration)) ?? false;
+  const totalSeconds = draft?.reduce((total, shot) => total + shot.duration, 0) ?? 0;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Scene {sceneNumber} shots</SheetTitle>
+          <SheetDescription>
+            Each shot becomes one clip of the scene's video, played in order.
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading && <p className="text-sm text-muted-foreground">Loading shots...</p>}
+        {error && <p className="text-sm text-red-500">{(error as Error).message}</p>}
+
+        {draft && (
+          <ScrollArea className="flex-1 -mx-6 px-6">
+            <div className="space-y-4 py-4">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">
+                  {draft.length} {draft.length === 1 ? "shot" : "shots"}, {totalSeconds}s
+                </span>
+                <Button variant="outline" size="sm" onClick={addShot}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add shot
+                </Button>
+              </div>
+
+              {draft.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  No shot list yet. One is planned when the scene's video is generated, or plan
+                  one now.
+                </p>
+              )}
+
+              {draft.map((shot, index) => (
+                <div key={index} className="space-y-3 rounded-lg border border-border p-4">
+                  <div className="flex items-center justify-between">
+                    <h3 className="font-semibold">Shot {index + 1}</h3>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => moveShot(index, -1)}
+                        disabled={index === 0}
+                        aria-label={`Move shot ${index + 1} earlier`}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => moveShot(index, 1)}
+                        disabled={index === draft.length - 1}
+                        aria-label={`Move shot ${index + 1} later`}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeShot(index)}
+                        aria-label={`Remove shot ${index + 1}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-2">
+                    <div className="space-y-1">
+                      <Label>Shot type</Label>
+                      <Select
+                        value={shot.shotType}
+                        onValueChange={(value) => updateShot(index, { shotType: value as ShotType })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SHOT_TYPES.map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {type}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Camera</Label>
+                      <Select
+                        value={shot.cameraMove}
+                        onValueChange={(value) =>
+                          updateShot(index, { cameraMove: value as CameraMove })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CAMERA_MOVES.map((move) => (
+                            <SelectItem key={move} value={move}>
+                              {move}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Seconds</Label>
+                      <Select
+                        value={clipLengths.includes(shot.duration) ? String(shot.duration) : undefined}
+                        onValueChange={(value) => updateShot(index, { duration: Number(value) })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder={`${shot.duration}s (not allowed)`} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {clipLengths.map((length) => (
+                            <SelectItem key={length} value={String(length)}>
+                              {length}s
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  {style && style.characters.length > 0 && (
+                    <div className="space-y-1">
+                      <Label>Characters on screen</Label>
+                      <div className="flex flex-wrap gap-2">
+                        {style.characters.map((character) => (
+                          <Button
+                            key={character.name}
+                            variant={shot.characters.includes(character.name) ? "default" : "outline"}
+                            size="sm"
+                            onClick={() => toggleCharacter(index, character.name)}
+                          >
+                            {character.name}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="space-y-1">
+                    <Label htmlFor={`shot-action-${index}`}>Action</Label>
+                    <Textarea
+                      id={`shot-action-${index}`}
+                      value={shot.action}
+                      onChange={(e) => updateShot(index, { action: e.target.value })}
+                      rows={2}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <SheetFooter className="gap-2 sm:gap-2">
+          {shots && shots.length > 0 && (
+            <Button variant="outline" onClick={() => clearMutation.mutate()} disabled={busy}>
+              <Eraser className="mr-2 h-4 w-4" />
+              Clear
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => planMutation.mutate()} disabled={busy}>
+            <Sparkles className="mr-2 h-4 w-4" />
+            {planMutation.isPending ? "Planning..." : "Plan shots"}
+          </Button>
+          <Button
+            onClick={() => draft && saveMutation.mutate(draft)}
+            disabled={!draft || draft.length === 0 || !durationsAllowed || busy}
+            className="bg-primary hover:bg-primary/90 text-primary-foreground"
+          >
+            <Save className="mr-2 h-4 w-4" />
+            {saveMutation.isPending ? "Saving..." : "Save shots"}
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -1,10 +1,10 @@
 import { useState, useRef, useEffect } from "react";
-import { ChevronLeft, ChevronRight, Play, Pause } from "lucide-react";
+import { ChevronLeft, ChevronRight, Play, Pause, FileText } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 
-interface StorySegment {
+export interface StorySegment {
   id: number;
   sceneDescription: string;
   narration: string;
@@ -12,10 +12,17 @@ interface StorySegment {
   videoUrl?: string;
   audioUrl?: string;
   imageUrl?: string;
+  captionsUrl?: string; // WebVTT track timed to the narration
+  scriptUrl?: string; // Plain-text script, for download
+  narrationScriptUrl?: string; // Script adapted for reading aloud, when there is one
+  storyId?: string;
 }
 
 interface StoryboardViewerProps {
   segments: StorySegment[];
+  /** Scene to show; the viewer tracks its own scene when omitted */
+  currentIndex?: number;
+  onIndexChange?: (index: number) => void;
 }
 
 // Helper component for icons (defined here so it is available before usage)
@@ -43,8 +50,17 @@ function Film({ className }: { className?: string }) {
   );
 }
 
-export const StoryboardViewer = ({ segments }: StoryboardViewerProps) => {
-  const [currentIndex, setCurrentIndex] = useState(0);
+export const StoryboardViewer = ({
+  segments,
+  currentIndex: controlledIndex,
+  onIndexChange,
+}: StoryboardViewerProps) => {
+  const [internalIndex, setInternalIndex] = useState(0);
+  const currentIndex = controlledIndex ?? internalIndex;
+  const setCurrentIndex = (index: number) => {
+    setInternalIndex(index);
+    onIndexChange?.(index);
+  };
   const [isPlaying, setIsPlaying] = useState(false);
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
@@ -283,7 +299,18 @@ export const StoryboardViewer = ({ segments }: StoryboardViewerProps) => {
                 className="w-full h-full object-cover"
                 controls={true}
                 playsInline
-              />
+              >
+                {currentSegment.captionsUrl && (
+                  <track
+                    key={currentSegment.captionsUrl}
+                    kind="captions"
+                    src={currentSegment.captionsUrl}
+                    srcLang="en"
+                    label="English"
+                    default
+                  />
+                )}
+              </video>
             ) : (
               <div className="text-center p-12">
                 <Film className="h-24 w-24 text-primary mx-auto mb-4 opacity-50" />
@@ -367,6 +394,30 @@ export const StoryboardViewer = ({ segments }: StoryboardViewerProps) => {
               <p className="text-sm text-muted-foreground italic">
                 "{currentSegment.narration}"
               </p>
+              {(currentSegment.scriptUrl || currentSegment.narrationScriptUrl) && (
+                <div className="mt-3 flex gap-4">
+                  {currentSegment.scriptUrl && (
+                    <a
+                      href={currentSegment.scriptUrl}
+                      download={`scene-${currentIndex + 1}-script.txt`}
+                      className="inline-flex items-center text-xs text-primary hover:underline"
+                    >
+                      <FileText className="mr-1 h-3 w-3" />
+                      Script
+                    </a>
+                  )}
+                  {currentSegment.narrationScriptUrl && (
+                    <a
+                      href={currentSegment.narrationScriptUrl}
+                      download={`scene-${currentIndex + 1}-narration.txt`}
+                      className="inline-flex items-center text-xs text-primary hover:underline"
+                    >
+                      <FileText className="mr-1 h-3 w-3" />
+                      Narration script
+                    </a>
+                  )}
+                </div>
+              )}
             </div>
           </div>
         </Card>
@@ -0,0 +1,250 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Plus, RefreshCw, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Separator } from "@/components/ui/separator";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  RebuildPlan,
+  StoryCharacter,
+  StoryStyle,
+  getStoryStyle,
+  rebuildStory,
+  updateStoryStyle,
+} from "@/lib/api";
+
+interface StyleEditorProps {
+  storyId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptyCharacter: StoryCharacter = { name: "", description: "", physicalTraits: "" };
+
+const countStaleAssets = (plan: RebuildPlan) =>
+  plan.sections.reduce((total, section) => total + section.assets.length, 0) +
+  (plan.referenceImage ? 1 : 0) +
+  (plan.characterPortraits ? 1 : 0);
+
+/**
+ * Side panel for correcting the extracted characters, setting and visual style
+ */
+export const StyleEditor = ({ storyId, open, onOpenChange }: StyleEditorProps) => {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<StoryStyle | null>(null);
+  const [pendingRebuild, setPendingRebuild] = useState<RebuildPlan | null>(null);
+
+  const { data: style, isLoading, error } = useQuery({
+    queryKey: ["story-style", storyId],
+    queryFn: () => getStoryStyle(storyId),
+    enabled: open,
+  });
+
+  // Start editing from the saved style each time the panel opens
+  useEffect(() => {
+    if (open && style) setDraft(style);
+  }, [open, style]);
+
+  const saveMutation = useMutation({
+    mutationFn: (updated: StoryStyle) => updateStoryStyle(storyId, updated),
+    onSuccess: (response) => {
+      queryClient.setQueryData(["story-style", storyId], response.style);
+      const stale = countStaleAssets(response.rebuild);
+      setPendingRebuild(stale > 0 ? response.rebuild : null);
+      toast.success(
+        stale > 0 ? `Style saved. ${stale} assets now need regenerating.` : "Style saved"
+      );
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  const rebuildMutation = useMutation({
+    mutationFn: () => rebuildStory(storyId),
+    onSuccess: (response) => {
+      setPendingRebuild(null);
+      toast.success(response.message);
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  const updateCharacter = (index: number, field: keyof StoryCharacter, value: string) => {
+    setDraft((current) =>
+      current && {
+        ...current,
+        characters: current.characters.map((c, i) => (i === index ? { ...c, [field]: value } : c)),
+      }
+    );
+  };
+
+  const removeCharacter = (index: number) => {
+    setDraft((current) =>
+      current && { ...current, characters: current.characters.filter((_, i) => i !== index) }
+    );
+  };
+
+  const addCharacter = () => {
+    setDraft((current) =>
+      current && { ...current, characters: [...current.characters, { ...emptyCharacter }] }
+    );
+  };
+
+  const updateSetting = (field: keyof StoryStyle["setting"], value: string) => {
+    setDraft((current) => current && { ...current, setting: { ...current.setting, [field]: value } });
+  };
+
+  const updateVisualStyle = (field: keyof StoryStyle["visualStyle"], value: string) => {
+    setDraft((current) =>
+      current && { ...current, visualStyle: { ...current.visualStyle, [field]: value } }
+    );
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Story style</SheetTitle>
+          <SheetDescription>
+            Characters, setting and visual style used in every image and video prompt.
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading && <p className="text-sm text-muted-foreground">Loading style...</p>}
+        {error && <p className="text-sm text-red-500">{(error as Error).message}</p>}
+
+        {draft && (
+          <ScrollArea className="flex-1 -mx-6 px-6">
+            <div className="space-y-6 py-4">
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold">Characters</h3>
+                  <Button variant="outline" size="sm" onClick={addCharacter}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add character
+                  </Button>
+                </div>
+
+                {draft.characters.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No characters yet.</p>
+                )}
+
+                {draft.characters.map((character, index) => (
+                  <div key={index} className="space-y-2 rounded-lg border border-border p-4">
+                    <div className="flex items-end gap-2">
+                      <div className="flex-1 space-y-1">
+                        <Label htmlFor={`character-name-${index}`}>Name</Label>
+                        <Input
+                          id={`character-name-${index}`}
+                          value={character.name}
+                          onChange={(e) => updateCharacter(index, "name", e.target.value)}
+                        />
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeCharacter(index)}
+                        aria-label={`Remove ${character.name || "character"}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor={`character-description-${index}`}>Description</Label>
+                      <Textarea
+                        id={`character-description-${index}`}
+                        value={character.description}
+                        onChange={(e) => updateCharacter(index, "description", e.target.value)}
+                        rows={2}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor={`character-traits-${index}`}>Physical traits</Label>
+                      <Textarea
+                        id={`character-traits-${index}`}
+                        value={character.physicalTraits}
+                        onChange={(e) => updateCharacter(index, "physicalTraits", e.target.value)}
+                        rows={2}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <Separator />
+
+              <div className="space-y-3">
+                <h3 className="font-semibold">Setting</h3>
+                {(["location", "timeperiod", "atmosphere"] as const).map((field) => (
+                  <div key={field} className="space-y-1">
+                    <Label htmlFor={`setting-${field}`} className="capitalize">
+                      {field === "timeperiod" ? "Time period" : field}
+                    </Label>
+                    <Input
+                      id={`setting-${field}`}
+                      value={draft.setting[field]}
+                      onChange={(e) => updateSetting(field, e.target.value)}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <Separator />
+
+              <div className="space-y-3">
+                <h3 className="font-semibold">Visual style</h3>
+                {(
+                  [
+                    ["artStyle", "Art style"],
+                    ["colorPalette", "Color palette"],
+                    ["cinematography", "Cinematography"],
+                  ] as const
+                ).map(([field, label]) => (
+                  <div key={field} className="space-y-1">
+                    <Label htmlFor={`visual-${field}`}>{label}</Label>
+                    <Input
+                      id={`visual-${field}`}
+                      value={draft.visualStyle[field]}
+                      onChange={(e) => updateVisualStyle(field, e.target.value)}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          </ScrollArea>
+        )}
+
+        <SheetFooter className="gap-2 sm:gap-2">
+          {pendingRebuild && (
+            <Button
+              variant="outline"
+              onClick={() => rebuildMutation.mutate()}
+              disabled={rebuildMutation.isPending}
+            >
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Regenerate {countStaleAssets(pendingRebuild)} assets
+            </Button>
+          )}
+          <Button
+            onClick={() => draft && saveMutation.mutate(draft)}
+            disabled={!draft || saveMutation.isPending}
+            className="bg-primary hover:bg-primary/90 text-primary-foreground"
+          >
+            <Save className="mr-2 h-4 w-4" />
+            {saveMutation.isPending ? "Saving..." : "Save style"}
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+};
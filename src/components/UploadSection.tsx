@@ -3,24 +3,54 @@ import { useDropzone } from "react-dropzone";
 import { FileText, Upload, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
 
+// Story formats the backend can import, by MIME type. Extensions are checked too,
+// since browsers often report .md and .epub files with a generic type.
+const ACCEPTED_FORMATS: Record<string, string[]> = {
+  'text/plain': ['.txt'],
+  'application/pdf': ['.pdf'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+  'application/epub+zip': ['.epub'],
+  'text/markdown': ['.md', '.markdown'],
+  'text/html': ['.html', '.htm'],
+  'application/rtf': ['.rtf'],
+};
+
+const ACCEPTED_EXTENSIONS = Object.values(ACCEPTED_FORMATS).flat();
+
+const isAcceptedFile = (file: File) =>
+  file.type in ACCEPTED_FORMATS ||
+  ACCEPTED_EXTENSIONS.some((extension) => file.name.toLowerCase().endsWith(extension));
+
+// Same bounds the backend applies to story text
+const MIN_STORY_LENGTH = 100;
+const MAX_STORY_LENGTH = 100000;
+
 interface UploadSectionProps {
   onFileSelect: (file: File) => void;
+  onTextSubmit: (text: string, title: string) => void;
   onCancel: () => void;
 }
 
-export const UploadSection = ({ onFileSelect, onCancel }: UploadSectionProps) => {
+export const UploadSection = ({ onFileSelect, onTextSubmit, onCancel }: UploadSectionProps) => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [pastedText, setPastedText] = useState("");
+  const [title, setTitle] = useState("");
+  const textLength = pastedText.trim().length;
+  const textIsValid = textLength >= MIN_STORY_LENGTH && textLength <= MAX_STORY_LENGTH;
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
       const file = acceptedFiles[0];
       
       // Validate file type
-      const validTypes = ['text/plain', 'application/pdf'];
-      if (!validTypes.includes(file.type)) {
-        toast.error("Please upload a text or PDF file");
+      if (!isAcceptedFile(file)) {
+        toast.error("Please upload a TXT, PDF, DOCX, EPUB, Markdown, HTML or RTF file");
         return;
       }
 
@@ -37,10 +67,7 @@ export const UploadSection = ({ onFileSelect, onCancel }: UploadSectionProps) =>
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      'text/plain': ['.txt'],
-      'application/pdf': ['.pdf']
-    },
+    accept: ACCEPTED_FORMATS,
     multiple: false,
   });
 
@@ -65,63 +92,106 @@ export const UploadSection = ({ onFileSelect, onCancel }: UploadSectionProps) =>
           </Button>
         </div>
 
-        <div
-          {...getRootProps()}
-          className={`
-            border-2 border-dashed rounded-lg p-12 text-center cursor-pointer
-            transition-all duration-300
-            ${isDragActive 
-              ? 'border-primary bg-primary/5 scale-105' 
-              : 'border-border hover:border-primary/50 hover:bg-secondary/30'
-            }
-          `}
-        >
-          <input {...getInputProps()} />
+        <Tabs defaultValue="file">
+          <TabsList className="grid w-full grid-cols-2 mb-6">
+            <TabsTrigger value="file">Upload file</TabsTrigger>
+            <TabsTrigger value="paste">Paste text</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="file">
+            <div
+              {...getRootProps()}
+              className={`
+                border-2 border-dashed rounded-lg p-12 text-center cursor-pointer
+                transition-all duration-300
+                ${isDragActive 
+                  ? 'border-primary bg-primary/5 scale-105' 
+                  : 'border-border hover:border-primary/50 hover:bg-secondary/30'
+                }
+              `}
+            >
+              <input {...getInputProps()} />
           
-          <div className="flex flex-col items-center gap-4">
-            {selectedFile ? (
-              <>
-                <FileText className="h-16 w-16 text-primary" />
-                <div>
-                  <p className="text-lg font-medium">{selectedFile.name}</p>
-                  <p className="text-sm text-muted-foreground">
-                    {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
-                  </p>
-                </div>
-              </>
-            ) : (
-              <>
-                <Upload className="h-16 w-16 text-muted-foreground" />
-                <div>
-                  <p className="text-lg font-medium">
-                    {isDragActive ? "Drop your file here" : "Drag & drop your story"}
-                  </p>
-                  <p className="text-sm text-muted-foreground mt-2">
-                    or click to browse • TXT or PDF • Max 10MB
-                  </p>
-                </div>
-              </>
+              <div className="flex flex-col items-center gap-4">
+                {selectedFile ? (
+                  <>
+                    <FileText className="h-16 w-16 text-primary" />
+                    <div>
+                      <p className="text-lg font-medium">{selectedFile.name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
+                      </p>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <Upload className="h-16 w-16 text-muted-foreground" />
+                    <div>
+                      <p className="text-lg font-medium">
+                        {isDragActive ? "Drop your file here" : "Drag & drop your story"}
+                      </p>
+                      <p className="text-sm text-muted-foreground mt-2">
+                        or click to browse • TXT, PDF, DOCX, EPUB, MD, HTML or RTF • Max 10MB
+                      </p>
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+
+            {selectedFile && (
+              <div className="flex gap-4 mt-6">
+                <Button
+                  variant="outline"
+                  onClick={() => setSelectedFile(null)}
+                  className="flex-1"
+                >
+                  Choose Different File
+                </Button>
+                <Button
+                  onClick={handleProcess}
+                  className="flex-1 bg-primary hover:bg-primary/90 text-primary-foreground shadow-glow"
+                >
+                  Process Story
+                </Button>
+              </div>
             )}
-          </div>
-        </div>
+          </TabsContent>
 
-        {selectedFile && (
-          <div className="flex gap-4 mt-6">
-            <Button
-              variant="outline"
-              onClick={() => setSelectedFile(null)}
-              className="flex-1"
-            >
-              Choose Different File
-            </Button>
+          <TabsContent value="paste" className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="story-title">Title (optional)</Label>
+              <Input
+                id="story-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="The Lion and the Mouse"
+                maxLength={200}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="story-text">Story</Label>
+              <Textarea
+                id="story-text"
+                value={pastedText}
+                onChange={(e) => setPastedText(e.target.value)}
+                placeholder="Once upon a time..."
+                rows={12}
+              />
+              <p className="text-xs text-muted-foreground">
+                {textLength.toLocaleString()} characters • between {MIN_STORY_LENGTH} and{" "}
+                {MAX_STORY_LENGTH.toLocaleString()}
+              </p>
+            </div>
             <Button
-              onClick={handleProcess}
-              className="flex-1 bg-primary hover:bg-primary/90 text-primary-foreground shadow-glow"
+              onClick={() => onTextSubmit(pastedText.trim(), title.trim())}
+              disabled={!textIsValid}
+              className="w-full bg-primary hover:bg-primary/90 text-primary-foreground shadow-glow"
             >
               Process Story
             </Button>
-          </div>
-        )}
+          </TabsContent>
+        </Tabs>
 
         <div className="mt-8 p-4 rounded-lg bg-secondary/50">
           <p className="text-sm text-muted-foreground">
@@ -0,0 +1,62 @@
+import { useEffect, useRef, useState } from "react";
+import { StoryEvent, getStoryEventsUrl } from "@/lib/api";
+
+const MAX_RECONNECT_DELAY_MS = 10000;
+
+/**
+ * Subscribe to live progress events for a story over WebSocket.
+ * Reconnects with backoff; returns whether the socket is currently open.
+ */
+export function useStoryEvents(
+  storyId: string | null | undefined,
+  onEvent: (event: StoryEvent) => void
+) {
+  const [connected, setConnected] = useState(false);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    if (!storyId) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: number | undefined;
+    let attempts = 0;
+    let closed = false;
+
+    const connect = () => {
+      socket = new WebSocket(getStoryEventsUrl(storyId));
+
+      socket.onopen = () => {
+        attempts = 0;
+        setConnected(true);
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          onEventRef.current(JSON.parse(message.data) as StoryEvent);
+        } catch (error) {
+          console.warn("Ignoring malformed story event", error);
+        }
+      };
+
+      socket.onclose = () => {
+        setConnected(false);
+        if (closed) return;
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+        attempts++;
+        reconnectTimer = window.setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      window.clearTimeout(reconnectTimer);
+      socket?.close();
+      setConnected(false);
+    };
+  }, [storyId]);
+
+  return connected;
+}
@@ -0,0 +1,423 @@
+// Client for the story-to-scene backend API (proxied through Vite at /api)
+
+export type StoryStatus =
+  | "uploaded"
+  | "analyzing"
+  | "extracting_style"
+  | "generating_reference_image"
+  | "generating_sections"
+  | "generating_videos"
+  | "completed"
+  | "failed";
+
+export interface StorySection {
+  id: number;
+  sectionName: string;
+  sceneDescription: string;
+  script: string;
+  duration?: number;
+  status: "pending" | "generating" | "completed" | "failed";
+  error?: string;
+  scriptPath?: string;
+  narrationScriptPath?: string;
+  videoPath?: string;
+  audioPath?: string;
+  mixedAudioPath?: string;
+  backgroundImagePath?: string;
+  shots?: Shot[];
+  staleAssets?: SectionAsset[];
+}
+
+export type ShotType =
+  | "establishing"
+  | "wide"
+  | "medium"
+  | "close-up"
+  | "over-the-shoulder"
+  | "point-of-view";
+
+export type CameraMove =
+  | "static"
+  | "pan"
+  | "tilt"
+  | "dolly-in"
+  | "dolly-out"
+  | "tracking"
+  | "crane"
+  | "handheld";
+
+/** One shot of a section's video, generated as its own clip */
+export interface Shot {
+  shotType: ShotType;
+  cameraMove: CameraMove;
+  characters: string[];
+  action: string;
+  duration: number;
+}
+
+export interface SectionsResponse {
+  success: boolean;
+  sections: StorySection[];
+}
+
+export interface StoryCharacter {
+  name: string;
+  description: string;
+  physicalTraits: string;
+}
+
+export interface StoryStyle {
+  characters: StoryCharacter[];
+  setting: {
+    location: string;
+    timeperiod: string;
+    atmosphere: string;
+  };
+  visualStyle: {
+    artStyle: string;
+    colorPalette: string;
+    cinematography: string;
+  };
+}
+
+export type SectionAsset = "audio" | "background" | "video" | "mix";
+
+export interface RebuildPlan {
+  referenceImage: boolean;
+  characterPortraits: boolean;
+  sections: { sectionId: number; assets: SectionAsset[] }[];
+}
+
+export interface StyleUpdateResponse {
+  success: boolean;
+  style: StoryStyle;
+  rebuild: RebuildPlan;
+}
+
+export interface RebuildResponse {
+  success: boolean;
+  jobId?: string;
+  plan: RebuildPlan;
+  message: string;
+}
+
+export interface ProcessingStatus {
+  storyId: string;
+  status: StoryStatus;
+  progress: number;
+  currentStep?: string;
+  sections?: StorySection[];
+  error?: string;
+}
+
+export type StoryEvent =
+  | {
+      type: "snapshot";
+      storyId: string;
+      story: {
+        status: StoryStatus;
+        progress: number;
+        currentStep?: string;
+        error?: string;
+        sections: StorySection[];
+      };
+    }
+  | {
+      type: "status";
+      storyId: string;
+      status: StoryStatus;
+      progress: number;
+      currentStep?: string;
+      error?: string;
+    }
+  | {
+      type: "section";
+      storyId: string;
+      section: StorySection;
+    }
+  | {
+      type: "sections";
+      storyId: string;
+      sections: StorySection[];
+    };
+
+/** A stored story as returned by the story list */
+export interface StorySummary {
+  id: string;
+  storyName: string;
+  originalFilename: string;
+  uploadedAt: string;
+  status: StoryStatus;
+  progress: number;
+  currentStep?: string;
+  error?: string;
+  sections: StorySection[];
+}
+
+export interface UploadResponse {
+  success: boolean;
+  storyId: string;
+  jobId?: string;
+  message: string;
+}
+
+const API_BASE = "/api";
+
+/**
+ * Read an error message from a failed response, falling back to the status text
+ */
+async function readError(response: Response): Promise<string> {
+  try {
+    const body = await response.json();
+    return body.error || body.message || response.statusText;
+  } catch {
+    return response.statusText;
+  }
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`${API_BASE}${path}`, init);
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  return response.json() as Promise<T>;
+}
+
+/** Per-upload overrides of the backend's segmentation config */
+export interface SegmentationOptions {
+  fixedSegmentCount?: number;
+  minSegments?: number;
+  maxSegments?: number;
+  wordsPerSegment?: number;
+}
+
+/**
+ * Upload a story file and start the processing pipeline
+ */
+export function uploadStory(file: File, segmentation: SegmentationOptions = {}): Promise<UploadResponse> {
+  const formData = new FormData();
+  formData.append("file", file);
+  for (const [key, value] of Object.entries(segmentation)) {
+    if (value !== undefined) formData.append(key, String(value));
+  }
+  return request<UploadResponse>("/upload", {
+    method: "POST",
+    body: formData,
+  });
+}
+
+export interface CreateStoryInput {
+  text: string;
+  title?: string;
+  segmentation?: SegmentationOptions;
+}
+
+/**
+ * Create a story from pasted text and start the processing pipeline
+ */
+export function createStory(input: CreateStoryInput): Promise<UploadResponse> {
+  return request<UploadResponse>("/stories", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+}
+
+/**
+ * List every stored story, newest first
+ */
+export function listStories(): Promise<StorySummary[]> {
+  return request<StorySummary[]>("/stories");
+}
+
+/**
+ * Delete a story with all of its generated files
+ */
+export function deleteStory(storyId: string): Promise<{ success: boolean; message: string }> {
+  return request(`/stories/${storyId}`, { method: "DELETE" });
+}
+
+/**
+ * Run the whole pipeline for a story again
+ */
+export function regenerateStory(
+  storyId: string
+): Promise<{ success: boolean; jobId?: string; message: string }> {
+  return request(`/stories/${storyId}/regenerate`, { method: "POST" });
+}
+
+/**
+ * Get the processing status of a story
+ */
+export function getStoryStatus(storyId: string): Promise<ProcessingStatus> {
+  return request<ProcessingStatus>(`/stories/${storyId}/status`);
+}
+
+/**
+ * WebSocket URL for live progress events of a story
+ */
+export function getStoryEventsUrl(storyId: string): string {
+  const protocol = window.location.protocol === "https:" ? "wss" : "ws";
+  return `${protocol}://${window.location.host}/ws?storyId=${encodeURIComponent(storyId)}`;
+}
+
+/**
+ * Apply a live event to a cached processing status
+ */
+export function applyStoryEvent(
+  current: ProcessingStatus | undefined,
+  event: StoryEvent
+): ProcessingStatus {
+  const base: ProcessingStatus = current ?? {
+    storyId: event.storyId,
+    status: "uploaded",
+    progress: 0,
+    sections: [],
+  };
+
+  switch (event.type) {
+    case "snapshot":
+      return {
+        ...base,
+        status: event.story.status,
+        progress: event.story.progress,
+        currentStep: event.story.currentStep,
+        error: event.story.error,
+        sections: event.story.sections,
+      };
+    case "status":
+      return {
+        ...base,
+        status: event.status,
+        progress: event.progress,
+        currentStep: event.currentStep,
+        error: event.error,
+      };
+    case "section": {
+      const sections = base.sections ?? [];
+      const exists = sections.some((s) => s.id === event.section.id);
+      return {
+        ...base,
+        sections: exists
+          ? sections.map((s) => (s.id === event.section.id ? event.section : s))
+          : [...sections, event.section].sort((a, b) => a.id - b.id),
+      };
+    }
+    case "sections":
+      return { ...base, sections: event.sections };
+  }
+}
+
+/**
+ * Whether the pipeline has stopped for this status
+ */
+export function isTerminalStatus(status?: StoryStatus): boolean {
+  return status === "completed" || status === "failed";
+}
+
+/**
+ * Streaming URL for a section's video
+ */
+export function getSectionVideoUrl(storyId: string, sectionId: number): string {
+  return `${API_BASE}/videos/${storyId}/${sectionId}`;
+}
+
+/**
+ * Streaming URL for a section's narration audio
+ */
+export function getSectionAudioUrl(storyId: string, sectionId: number): string {
+  return `${API_BASE}/stories/${storyId}/sections/${sectionId}/audio`;
+}
+
+/**
+ * Background image of a section
+ */
+export function getSectionBackgroundUrl(storyId: string, sectionId: number): string {
+  return `${API_BASE}/stories/${storyId}/sections/${sectionId}/background`;
+}
+
+/**
+ * Plain-text script of a section (or the narration script adapted from it)
+ */
+export function getSectionScriptUrl(
+  storyId: string,
+  sectionId: number,
+  variant: "script" | "narration" = "script"
+): string {
+  const query = variant === "narration" ? "?variant=narration" : "";
+  return `${API_BASE}/stories/${storyId}/sections/${sectionId}/script${query}`;
+}
+
+/**
+ * WebVTT captions for a section, timed to its narration
+ */
+export function getSectionCaptionsUrl(storyId: string, sectionId: number): string {
+  return `${API_BASE}/stories/${storyId}/captions/${sectionId}?format=vtt`;
+}
+
+export interface SectionShots {
+  shots: Shot[];
+  /** Durations (seconds) a shot can have */
+  clipLengths: number[];
+}
+
+/**
+ * Get a section's shot list (empty until planned) and the lengths its shots can have
+ */
+export function getSectionShots(storyId: string, sectionId: number): Promise<SectionShots> {
+  return request<SectionShots>(`/stories/${storyId}/sections/${sectionId}/shots`);
+}
+
+/**
+ * Replace a section's shot list. The section's video becomes stale.
+ */
+export function updateSectionShots(
+  storyId: string,
+  sectionId: number,
+  shots: Shot[]
+): Promise<SectionsResponse> {
+  return request<SectionsResponse>(`/stories/${storyId}/sections/${sectionId}/shots`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ shots }),
+  });
+}
+
+/**
+ * Plan a new shot list for a section
+ */
+export function planSectionShots(storyId: string, sectionId: number): Promise<SectionsResponse> {
+  return request<SectionsResponse>(`/stories/${storyId}/sections/${sectionId}/shots/plan`, { method: "POST" });
+}
+
+/**
+ * Remove a section's shot list; a new one is planned when its video is next generated
+ */
+export function clearSectionShots(storyId: string, sectionId: number): Promise<SectionsResponse> {
+  return request<SectionsResponse>(`/stories/${storyId}/sections/${sectionId}/shots`, { method: "DELETE" });
+}
+
+/**
+ * Get the style bible (characters, setting, visual style) of a story
+ */
+export function getStoryStyle(storyId: string): Promise<StoryStyle> {
+  return request<StoryStyle>(`/stories/${storyId}/style`);
+}
+
+/**
+ * Replace the style of a story. Assets made with the old style become stale.
+ */
+export function updateStoryStyle(storyId: string, style: StoryStyle): Promise<StyleUpdateResponse> {
+  return request<StyleUpdateResponse>(`/stories/${storyId}/style`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(style),
+  });
+}
+
+/**
+ * Regenerate the assets whose inputs changed
+ */
+export function rebuildStory(storyId: string): Promise<RebuildResponse> {
+  return request<RebuildResponse>(`/stories/${storyId}/rebuild`, { method: "POST" });
+}
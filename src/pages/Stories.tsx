@@ -0,0 +1,254 @@
+import { useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { BookOpen, ImageOff, Play, Plus, RefreshCw, Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardFooter } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  StorySummary,
+  deleteStory,
+  getSectionBackgroundUrl,
+  isTerminalStatus,
+  listStories,
+  regenerateStory,
+} from "@/lib/api";
+
+type StatusFilter = "all" | "processing" | "completed" | "failed";
+
+const FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "processing", label: "Processing" },
+  { value: "completed", label: "Completed" },
+  { value: "failed", label: "Failed" },
+];
+
+// How often to refresh the list while any story is still processing
+const LIST_POLL_INTERVAL_MS = 5000;
+
+const matchesFilter = (story: StorySummary, filter: StatusFilter) => {
+  switch (filter) {
+    case "all":
+      return true;
+    case "processing":
+      return !isTerminalStatus(story.status);
+    default:
+      return story.status === filter;
+  }
+};
+
+const statusBadge = (story: StorySummary) => {
+  if (story.status === "completed") return <Badge>Completed</Badge>;
+  if (story.status === "failed") return <Badge variant="destructive">Failed</Badge>;
+  return <Badge variant="secondary">Processing</Badge>;
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+/**
+ * First section with a background image, used as the story's thumbnail
+ */
+const thumbnailUrl = (story: StorySummary) => {
+  const section = story.sections.find((s) => s.backgroundImagePath);
+  return section ? getSectionBackgroundUrl(story.id, section.id) : undefined;
+};
+
+/**
+ * Library of every stored story with status filters and per-story actions
+ */
+const Stories = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [filter, setFilter] = useState<StatusFilter>("all");
+  const [pendingDelete, setPendingDelete] = useState<StorySummary | null>(null);
+
+  const { data: stories = [], isLoading, error } = useQuery({
+    queryKey: ["stories"],
+    queryFn: listStories,
+    refetchInterval: (query) =>
+      query.state.data?.some((story) => !isTerminalStatus(story.status))
+        ? LIST_POLL_INTERVAL_MS
+        : false,
+  });
+
+  const visible = useMemo(
+    () => stories.filter((story) => matchesFilter(story, filter)),
+    [stories, filter]
+  );
+
+  const regenerateMutation = useMutation({
+    mutationFn: (storyId: string) => regenerateStory(storyId),
+    onSuccess: (response) => {
+      toast.success(response.message);
+      queryClient.invalidateQueries({ queryKey: ["stories"] });
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (storyId: string) => deleteStory(storyId),
+    onSuccess: (_, storyId) => {
+      queryClient.setQueryData<StorySummary[]>(["stories"], (current) =>
+        current?.filter((story) => story.id !== storyId)
+      );
+      toast.success("Story deleted");
+    },
+    onError: (err: Error) => toast.error(err.message),
+    onSettled: () => setPendingDelete(null),
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-6xl mx-auto px-6 py-12">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-4xl font-bold text-primary">Your stories</h1>
+            <p className="text-muted-foreground mt-1">
+              {stories.length} {stories.length === 1 ? "story" : "stories"}
+            </p>
+          </div>
+          <Button asChild className="bg-primary hover:bg-primary/90 text-primary-foreground">
+            <Link to="/">
+              <Plus className="mr-2 h-4 w-4" />
+              New story
+            </Link>
+          </Button>
+        </div>
+
+        <ToggleGroup
+          type="single"
+          value={filter}
+          onValueChange={(value) => value && setFilter(value as StatusFilter)}
+          className="justify-start mb-6"
+        >
+          {FILTERS.map(({ value, label }) => (
+            <ToggleGroupItem key={value} value={value}>
+              {label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+
+        {isLoading && <p className="text-sm text-muted-foreground">Loading stories...</p>}
+        {error && <p className="text-sm text-red-500">{(error as Error).message}</p>}
+
+        {!isLoading && !error && visible.length === 0 && (
+          <div className="rounded-lg border border-dashed border-border p-12 text-center">
+            <BookOpen className="mx-auto mb-4 h-10 w-10 text-muted-foreground" />
+            <p className="text-muted-foreground">
+              {stories.length === 0 ? "No stories yet." : "No stories match this filter."}
+            </p>
+          </div>
+        )}
+
+        <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+          {visible.map((story) => {
+            const thumbnail = thumbnailUrl(story);
+            const processing = !isTerminalStatus(story.status);
+
+            return (
+              <Card key={story.id} className="overflow-hidden flex flex-col">
+                <div className="aspect-video bg-secondary/50 flex items-center justify-center">
+                  {thumbnail ? (
+                    <img
+                      src={thumbnail}
+                      alt={story.originalFilename}
+                      className="h-full w-full object-cover"
+                      loading="lazy"
+                    />
+                  ) : (
+                    <ImageOff className="h-8 w-8 text-muted-foreground" />
+                  )}
+                </div>
+
+                <CardContent className="flex-1 space-y-2 pt-4">
+                  <div className="flex items-start justify-between gap-2">
+                    <h2 className="font-semibold break-all">{story.originalFilename}</h2>
+                    {statusBadge(story)}
+                  </div>
+                  <p className="text-sm text-muted-foreground">{formatDate(story.uploadedAt)}</p>
+                  {processing && (
+                    <div className="space-y-1">
+                      <Progress value={story.progress} />
+                      <p className="text-xs text-muted-foreground">
+                        {story.currentStep || "Processing..."}
+                      </p>
+                    </div>
+                  )}
+                  {story.status === "failed" && story.error && (
+                    <p className="text-xs text-red-500">{story.error}</p>
+                  )}
+                </CardContent>
+
+                <CardFooter className="gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => navigate(`/stories/${story.id}`)}
+                    disabled={story.status === "failed"}
+                  >
+                    <Play className="mr-2 h-4 w-4" />
+                    Open
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => regenerateMutation.mutate(story.id)}
+                    disabled={processing || regenerateMutation.isPending}
+                  >
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                    Regenerate
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="ml-auto"
+                    onClick={() => setPendingDelete(story)}
+                    aria-label={`Delete ${story.originalFilename}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </CardFooter>
+              </Card>
+            );
+          })}
+        </div>
+      </div>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete story?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.originalFilename}" and all of its images, narration and videos will
+              be removed. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingDelete && deleteMutation.mutate(pendingDelete.id)}
+              disabled={deleteMutation.isPending}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Stories;
@@ -0,0 +1,199 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Clapperboard, Library, Link2, Palette } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ProcessingView } from "@/components/ProcessingView";
+import { StoryboardViewer, StorySegment } from "@/components/StoryboardViewer";
+import { ShotListEditor } from "@/components/ShotListEditor";
+import { StyleEditor } from "@/components/StyleEditor";
+import { useStoryEvents } from "@/hooks/use-story-events";
+import {
+  ProcessingStatus,
+  StorySection,
+  applyStoryEvent,
+  getSectionAudioUrl,
+  getSectionBackgroundUrl,
+  getSectionCaptionsUrl,
+  getSectionScriptUrl,
+  getSectionVideoUrl,
+  getStoryStatus,
+  isTerminalStatus,
+} from "@/lib/api";
+
+// How often to ask the backend for pipeline progress while processing
+const STATUS_POLL_INTERVAL_MS = 2000;
+// Fallback polling while live events are flowing, in case one is missed
+const STATUS_POLL_INTERVAL_LIVE_MS = 15000;
+
+/**
+ * Map backend story sections to the segments the viewer plays
+ */
+const toViewerSegments = (storyId: string, sections: StorySection[]): StorySegment[] =>
+  sections.map((section) => ({
+    id: section.id,
+    sceneDescription: section.sceneDescription || section.script || section.sectionName,
+    narration: section.script || section.sceneDescription || "",
+    caption: section.sectionName || `Scene ${section.id}`,
+    videoUrl: section.videoPath ? getSectionVideoUrl(storyId, section.id) : undefined,
+    audioUrl: section.audioPath ? getSectionAudioUrl(storyId, section.id) : undefined,
+    imageUrl: section.backgroundImagePath ? getSectionBackgroundUrl(storyId, section.id) : undefined,
+    captionsUrl: getSectionCaptionsUrl(storyId, section.id),
+    scriptUrl: section.scriptPath ? getSectionScriptUrl(storyId, section.id) : undefined,
+    narrationScriptUrl: section.narrationScriptPath
+      ? getSectionScriptUrl(storyId, section.id, "narration")
+      : undefined,
+    storyId,
+  }));
+
+const StoryMessage = ({ title, message }: { title: string; message: string }) => (
+  <section className="min-h-screen flex items-center justify-center px-6">
+    <div className="max-w-xl text-center space-y-4">
+      <h2 className="text-3xl font-bold">{title}</h2>
+      <p className="text-muted-foreground">{message}</p>
+      <Button asChild variant="outline">
+        <Link to="/stories">
+          <Library className="mr-2 h-4 w-4" />
+          Back to my stories
+        </Link>
+      </Button>
+    </div>
+  </section>
+);
+
+/**
+ * A story's progress while it is processed, then its scenes. Routed as
+ * /stories/:id and /stories/:id/scene/:n (1-based) so scenes can be linked to.
+ */
+const StoryViewer = () => {
+  const { id: storyId = "", n } = useParams<{ id: string; n?: string }>();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [styleEditorOpen, setStyleEditorOpen] = useState(false);
+  const [shotEditorOpen, setShotEditorOpen] = useState(false);
+
+  // Live updates are merged into the same cache entry the poller fills
+  const liveConnected = useStoryEvents(storyId, (event) => {
+    queryClient.setQueryData<ProcessingStatus>(["story-status", storyId], (current) =>
+      applyStoryEvent(current, event)
+    );
+  });
+
+  const { data: status, error: statusError, isLoading } = useQuery({
+    queryKey: ["story-status", storyId],
+    queryFn: () => getStoryStatus(storyId),
+    enabled: !!storyId,
+    retry: false,
+    refetchInterval: (query) => {
+      if (query.state.error || isTerminalStatus(query.state.data?.status)) return false;
+      return liveConnected ? STATUS_POLL_INTERVAL_LIVE_MS : STATUS_POLL_INTERVAL_MS;
+    },
+  });
+
+  // Sections keep updating after processing (e.g. videos generated later)
+  const segments = useMemo(
+    () => toViewerSegments(storyId, status?.sections ?? []),
+    [storyId, status?.sections]
+  );
+
+  const requestedScene = n ? parseInt(n, 10) : 1;
+  const sceneIndex = Math.min(
+    Math.max((Number.isNaN(requestedScene) ? 1 : requestedScene) - 1, 0),
+    Math.max(segments.length - 1, 0)
+  );
+
+  // Correct links to scenes that don't exist
+  useEffect(() => {
+    if (n && segments.length > 0 && String(sceneIndex + 1) !== n) {
+      navigate(`/stories/${storyId}/scene/${sceneIndex + 1}`, { replace: true });
+    }
+  }, [n, sceneIndex, segments.length, storyId, navigate]);
+
+  const handleSceneChange = (index: number) => {
+    navigate(`/stories/${storyId}/scene/${index + 1}`, { replace: true });
+  };
+
+  const copySceneLink = async () => {
+    const url = `${window.location.origin}/stories/${storyId}/scene/${sceneIndex + 1}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Scene link copied");
+    } catch {
+      toast.error("Could not copy the link");
+    }
+  };
+
+  if (statusError) {
+    return <StoryMessage title="Story not available" message={statusError.message} />;
+  }
+
+  if (isLoading || !status || !isTerminalStatus(status.status)) {
+    return (
+      <ProcessingView
+        progress={status?.progress ?? 0}
+        currentStep={status?.currentStep ?? "Loading story..."}
+      />
+    );
+  }
+
+  if (status.status === "failed") {
+    return (
+      <StoryMessage
+        title="Story processing failed"
+        message={status.error || "Something went wrong while creating this story."}
+      />
+    );
+  }
+
+  if (segments.length === 0) {
+    return (
+      <StoryMessage
+        title="No scenes yet"
+        message="Processing finished but no scenes were created."
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="fixed top-6 left-6 z-10">
+        <Button variant="outline" asChild>
+          <Link to="/stories">
+            <Library className="mr-2 h-4 w-4" />
+            My stories
+          </Link>
+        </Button>
+      </div>
+      <div className="fixed top-6 right-6 z-10 flex gap-2">
+        <Button variant="outline" onClick={copySceneLink}>
+          <Link2 className="mr-2 h-4 w-4" />
+          Copy scene link
+        </Button>
+        <Button variant="outline" onClick={() => setShotEditorOpen(true)}>
+          <Clapperboard className="mr-2 h-4 w-4" />
+          Edit shots
+        </Button>
+        <Button variant="outline" onClick={() => setStyleEditorOpen(true)}>
+          <Palette className="mr-2 h-4 w-4" />
+          Edit style
+        </Button>
+      </div>
+      <StoryboardViewer
+        segments={segments}
+        currentIndex={sceneIndex}
+        onIndexChange={handleSceneChange}
+      />
+      <ShotListEditor
+        storyId={storyId}
+        sectionId={segments[sceneIndex].id}
+        sceneNumber={sceneIndex + 1}
+        open={shotEditorOpen}
+        onOpenChange={setShotEditorOpen}
+      />
+      <StyleEditor storyId={storyId} open={styleEditorOpen} onOpenChange={setStyleEditorOpen} />
+    </div>
+  );
+};
+
+export default StoryViewer;